@@ -108,6 +108,11 @@ export interface ProjectContext {
   analyzedAt: Date;
 }
 
+/**
+ * Directories never worth scanning - dependencies, VCS data and build output
+ */
+export const IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', 'build', '.next'];
+
 /**
  * Analyzes a project directory to build comprehensive context
  */
@@ -490,7 +495,7 @@ export class ProjectContextAnalyzer {
           
           if (entry.isDirectory()) {
             // Skip common ignore directories
-            if (!['node_modules', '.git', 'dist', 'build', '.next'].includes(entry.name)) {
+            if (!IGNORED_DIRECTORIES.includes(entry.name)) {
               await scanDirectory(fullPath);
             }
           } else if (entry.isFile()) {
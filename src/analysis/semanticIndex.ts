@@ -0,0 +1,373 @@
+/**
+ * Semantic code index
+ *
+ * Splits source files into function- and class-sized chunks, embeds them
+ * and keeps the vectors on disk under .numidium/, so a natural-language
+ * query can find relevant code without reading the whole repo. Files are
+ * only re-embedded when their mtime changes.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IGNORED_DIRECTORIES } from './projectContext.js';
+
+/** Turns texts into vectors, one per text and in the same order */
+export type Embedder = (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+
+export interface CodeChunk {
+  /** First line, 1-based */
+  startLine: number;
+  /** Last line, inclusive */
+  endLine: number;
+  /** Function or class the chunk belongs to, e.g. 'SemanticIndex.update' */
+  symbol?: string;
+  text: string;
+}
+
+export interface SemanticSearchResult extends CodeChunk {
+  /** Path relative to the indexed root */
+  file: string;
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+export interface IndexUpdateStats {
+  /** Files embedded because they were new or changed */
+  indexed: number;
+  unchanged: number;
+  removed: number;
+  /** Chunks in the index after the update */
+  chunks: number;
+}
+
+interface IndexedChunk extends CodeChunk {
+  /** Float32 vector as base64 - a fraction of the size of a JSON number array */
+  vector: string;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  chunks: IndexedChunk[];
+}
+
+interface IndexData {
+  version: number;
+  /** Vectors from different models aren't comparable, so a change rebuilds */
+  embeddingModel: string;
+  files: Record<string, IndexedFile>;
+}
+
+/** 0-based line range, end exclusive */
+interface LineRange {
+  start: number;
+  end: number;
+  symbol?: string;
+}
+
+const INDEX_VERSION = 1;
+
+/** File types worth indexing */
+export const INDEXED_EXTENSIONS = [
+  '.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.vue',
+  '.py', '.go', '.rs', '.java', '.kt', '.rb', '.php', '.cs',
+  '.c', '.h', '.cpp', '.hpp', '.swift', '.md'
+];
+
+/** Long functions are split so their middle is still findable */
+const MAX_CHUNK_LINES = 60;
+
+/** Anything bigger is generated code or data */
+const MAX_FILE_BYTES = 256 * 1024;
+
+/** Embedding models truncate long input anyway - don't ship what they drop */
+const MAX_EMBED_CHARS = 2000;
+
+/** Chunks embedded per round-trip; progress is kept if a later group fails */
+const EMBED_GROUP_SIZE = 128;
+
+/** Top-level declarations in the common languages */
+const DECLARATION_PATTERN = /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:pub\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|def|fn|func|impl|struct|trait|module)\s+([A-Za-z_$][\w$]*)/;
+
+/** Indented method declarations - used to split classes too big for one chunk */
+const MEMBER_PATTERN = /^\s+(?:(?:async\s+)?(?:def|fn|func|function)\s+([A-Za-z_$][\w$]*)|(?:(?:public|private|protected|static|async\*?|readonly|override|abstract|get|set)\s+)+([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(|(?!(?:if|for|while|switch|catch|return|await|new|throw|super|function)\b)([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(.*\)\s*(?::\s*[^={]+)?\{\s*$)/;
+
+/** Comments and decorators belong with the declaration below them */
+const LEADING_LINE_PATTERN = /^\s*(?:\/\/|\/\*|\*|#|@)/;
+
+/**
+ * Split source text into chunks along function and class boundaries
+ */
+export function chunkSource(content: string): CodeChunk[] {
+  const lines = content.split('\n');
+  const ranges: LineRange[] = [];
+
+  for (const section of splitAtDeclarations(lines, 0, lines.length, DECLARATION_PATTERN)) {
+    if (section.end - section.start <= MAX_CHUNK_LINES) {
+      ranges.push(section);
+      continue;
+    }
+
+    // Big classes split by member, anything still too long by line count
+    for (const member of splitAtDeclarations(lines, section.start, section.end, MEMBER_PATTERN)) {
+      const symbol = section.symbol && member.symbol && member.start !== section.start
+        ? `${section.symbol}.${member.symbol}`
+        : section.symbol || member.symbol;
+
+      for (let start = member.start; start < member.end; start += MAX_CHUNK_LINES) {
+        ranges.push({ start, end: Math.min(member.end, start + MAX_CHUNK_LINES), symbol });
+      }
+    }
+  }
+
+  return ranges
+    .map(range => ({
+      startLine: range.start + 1,
+      endLine: range.end,
+      symbol: range.symbol,
+      text: lines.slice(range.start, range.end).join('\n')
+    }))
+    .filter(chunk => chunk.text.trim().length > 0);
+}
+
+/**
+ * On-disk vector index for one project directory
+ */
+export class SemanticIndex {
+  private data: IndexData | null = null;
+  private readonly indexPath: string;
+
+  constructor(
+    private readonly rootPath: string,
+    private readonly embed: Embedder,
+    private readonly embeddingModel: string,
+    indexPath?: string
+  ) {
+    this.indexPath = indexPath || path.join(rootPath, '.numidium', 'semantic-index.json');
+  }
+
+  /**
+   * Bring the index up to date with the files on disk
+   */
+  async update(signal?: AbortSignal): Promise<IndexUpdateStats> {
+    const data = await this.load();
+    const stats: IndexUpdateStats = { indexed: 0, unchanged: 0, removed: 0, chunks: 0 };
+    const seen = new Set<string>();
+    const changed: Array<{ file: string; mtimeMs: number; chunks: CodeChunk[] }> = [];
+
+    for (const { filePath, mtimeMs } of await findIndexableFiles(this.rootPath)) {
+      const file = path.relative(this.rootPath, filePath);
+      seen.add(file);
+
+      if (data.files[file]?.mtimeMs === mtimeMs) {
+        stats.unchanged++;
+        continue;
+      }
+
+      try {
+        changed.push({ file, mtimeMs, chunks: chunkSource(await fs.readFile(filePath, 'utf-8')) });
+      } catch {
+        // Deleted or unreadable since the scan - try again next time
+      }
+    }
+
+    for (const file of Object.keys(data.files)) {
+      if (!seen.has(file)) {
+        delete data.files[file];
+        stats.removed++;
+      }
+    }
+
+    try {
+      // Group files so each embed call carries a decent batch
+      let group: typeof changed = [];
+      let groupChunks = 0;
+      for (const entry of changed) {
+        group.push(entry);
+        groupChunks += entry.chunks.length;
+        if (groupChunks >= EMBED_GROUP_SIZE) {
+          stats.indexed += await this.embedFiles(group, signal);
+          group = [];
+          groupChunks = 0;
+        }
+      }
+      stats.indexed += await this.embedFiles(group, signal);
+    } finally {
+      if (stats.indexed > 0 || stats.removed > 0) {
+        await this.save();
+      }
+    }
+
+    stats.chunks = Object.values(data.files).reduce((sum, entry) => sum + entry.chunks.length, 0);
+    return stats;
+  }
+
+  /**
+   * Find the chunks closest in meaning to a query
+   */
+  async search(query: string, topK: number, signal?: AbortSignal): Promise<SemanticSearchResult[]> {
+    const data = await this.load();
+    const [queryVector] = await this.embed([query], signal);
+    const results: SemanticSearchResult[] = [];
+
+    for (const [file, entry] of Object.entries(data.files)) {
+      for (const { vector, ...chunk } of entry.chunks) {
+        results.push({ ...chunk, file, score: cosineSimilarity(queryVector, decodeVector(vector)) });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * Embed a group of changed files and store their chunks
+   */
+  private async embedFiles(
+    files: Array<{ file: string; mtimeMs: number; chunks: CodeChunk[] }>,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const texts = files.flatMap(({ file, chunks }) => chunks.map(chunk => toEmbeddingText(file, chunk)));
+    const vectors = texts.length > 0 ? await this.embed(texts, signal) : [];
+    const data = await this.load();
+
+    let next = 0;
+    for (const { file, mtimeMs, chunks } of files) {
+      data.files[file] = {
+        mtimeMs,
+        chunks: chunks.map(chunk => ({ ...chunk, vector: encodeVector(vectors[next++]) }))
+      };
+    }
+    return files.length;
+  }
+
+  /**
+   * Read the index once, starting fresh if it's missing, corrupt or from another model
+   */
+  private async load(): Promise<IndexData> {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as IndexData;
+      if (parsed.version === INDEX_VERSION && parsed.embeddingModel === this.embeddingModel) {
+        this.data = parsed;
+        return parsed;
+      }
+    } catch {
+      // No usable index yet
+    }
+
+    this.data = { version: INDEX_VERSION, embeddingModel: this.embeddingModel, files: {} };
+    return this.data;
+  }
+
+  /**
+   * Write the index to disk
+   */
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+    await fs.writeFile(this.indexPath, JSON.stringify(this.data), 'utf-8');
+  }
+}
+
+/**
+ * Split lines [start, end) before each line matching the pattern
+ */
+function splitAtDeclarations(lines: string[], start: number, end: number, pattern: RegExp): LineRange[] {
+  const ranges: LineRange[] = [];
+  let current: LineRange = { start, end };
+
+  for (let i = start; i < end; i++) {
+    const match = pattern.exec(lines[i]);
+    if (!match) continue;
+
+    const symbol = match[1] || match[2] || match[3];
+    let boundary = i;
+    while (boundary > current.start && LEADING_LINE_PATTERN.test(lines[boundary - 1])) {
+      boundary--;
+    }
+
+    if (boundary > current.start) {
+      ranges.push({ ...current, end: boundary });
+      current = { start: boundary, end, symbol };
+    } else if (!current.symbol) {
+      current.symbol = symbol;
+    }
+  }
+
+  ranges.push(current);
+  return ranges;
+}
+
+/**
+ * Find files to index, skipping dependencies, build output and hidden directories
+ */
+async function findIndexableFiles(rootPath: string): Promise<Array<{ filePath: string; mtimeMs: number }>> {
+  const files: Array<{ filePath: string; mtimeMs: number }> = [];
+
+  async function scanDirectory(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Skip directories we can't access
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.includes(entry.name) && !entry.name.startsWith('.')) {
+          await scanDirectory(fullPath);
+        }
+      } else if (entry.isFile() && INDEXED_EXTENSIONS.includes(path.extname(entry.name))) {
+        try {
+          const stats = await fs.stat(fullPath);
+          if (stats.size <= MAX_FILE_BYTES) {
+            files.push({ filePath: fullPath, mtimeMs: stats.mtimeMs });
+          }
+        } catch {
+          // Vanished during the scan
+        }
+      }
+    }
+  }
+
+  await scanDirectory(rootPath);
+  return files;
+}
+
+/**
+ * What the embedding model sees - the path and symbol help short chunks match
+ */
+function toEmbeddingText(file: string, chunk: CodeChunk): string {
+  const header = chunk.symbol ? `${file} (${chunk.symbol})` : file;
+  return `${header}\n${chunk.text.slice(0, MAX_EMBED_CHARS)}`;
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  // Copy out - pooled Buffers aren't guaranteed to be 4-byte aligned
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
\ No newline at end of file
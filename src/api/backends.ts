@@ -0,0 +1,89 @@
+/**
+ * Model server selection
+ *
+ * Ollama is the default. Anything serving the OpenAI chat-completions API
+ * (llama.cpp's llama-server, LM Studio, vLLM) works through the
+ * OpenAI-compatible client. Ollama traffic can also be recorded, replayed
+ * or scripted for runs that don't depend on a live model.
+ */
+
+import { BackendConfig, BackendKind, BackendTransportConfig, LlmBackend } from '../interfaces.js';
+import { OllamaClient, OllamaFetch, OllamaHostConfig } from '../ollama/client.js';
+import { createRecordingFetch, createReplayFetch } from '../ollama/cassette.js';
+import { createScriptedFetch } from '../ollama/scripted.js';
+import { OpenAICompatibleClient } from '../openai/client.js';
+
+/** Where each kind of server listens out of the box */
+export const DEFAULT_BACKEND_HOSTS: Record<BackendKind, string> = {
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:8080/v1',
+};
+
+/**
+ * Transports by configuration - every client in the process shares one,
+ * so a cassette is written once and replies are served in a single order
+ */
+const transports: Map<string, OllamaFetch> = new Map();
+
+/**
+ * Create the client for a backend
+ */
+export function createLlmBackend(
+  config: BackendConfig,
+  options: { timeout?: number; retries?: number } = {}
+): LlmBackend {
+  const host = config.host || DEFAULT_BACKEND_HOSTS[config.type];
+
+  switch (config.type) {
+    case 'openai':
+      if (config.transport && getTransport(config.transport)) {
+        throw new Error('Recording, replay and scripted replies need the Ollama backend');
+      }
+      if (config.hosts && config.hosts.length > 1) {
+        throw new Error('Multiple hosts need the Ollama backend');
+      }
+      return new OpenAICompatibleClient({ host, apiKey: config.apiKey, ...options });
+    case 'ollama':
+      return new OllamaClient({
+        host,
+        hosts: config.hosts,
+        fetch: config.transport && getTransport(config.transport),
+        ...options
+      });
+    default:
+      throw new Error(`Unknown backend type: ${config.type}`);
+  }
+}
+
+/**
+ * Parse a comma-separated host list, e.g. "http://gpu-box:11434,http://localhost:11434"
+ *
+ * Earlier hosts are preferred. Returns undefined for an empty list.
+ */
+export function parseHostList(value?: string): OllamaHostConfig[] | undefined {
+  const urls = (value || '').split(',').map(url => url.trim()).filter(Boolean);
+  return urls.length > 0 ? urls.map((url, priority) => ({ url, priority })) : undefined;
+}
+
+/**
+ * The shared transport for a configuration, or undefined for plain HTTP
+ *
+ * A script or cassette stands in for the server; recording wraps
+ * whichever of those (or the network) is in use.
+ */
+function getTransport(config: BackendTransportConfig): OllamaFetch | undefined {
+  const key = JSON.stringify([config.script, config.replay, config.record]);
+  if (!transports.has(key)) {
+    let transport: OllamaFetch | undefined = config.script
+      ? createScriptedFetch(config.script)
+      : config.replay ? createReplayFetch(config.replay) : undefined;
+    if (config.record) {
+      transport = createRecordingFetch(config.record, transport);
+    }
+    if (!transport) {
+      return undefined;
+    }
+    transports.set(key, transport);
+  }
+  return transports.get(key);
+}
\ No newline at end of file
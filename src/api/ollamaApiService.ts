@@ -5,21 +5,49 @@
  * "why is my JSON wrapped in markdown" moments that make you question life choices.
  */
 
-import { OllamaClient, OllamaGenerateResponse } from '../ollama/client.js';
-import { OllamaModelManager } from '../ollama/models.js';
+import { Content } from '../types.js';
+import {
+  OllamaClient,
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaPullProgress,
+  OllamaCreateRequest,
+  OllamaKeepAlive,
+  OllamaHostConfig,
+  OllamaRunningModel,
+  OllamaToolCall,
+  isAbortError,
+} from '../ollama/client.js';
+import { OllamaModelManager, ModelCapabilities, DEFAULT_EMBEDDING_MODEL } from '../ollama/models.js';
+import { LlmBackend, BackendKind, BackendModel, BackendTransportConfig } from '../interfaces.js';
+import { createLlmBackend, DEFAULT_BACKEND_HOSTS } from './backends.js';
+import {
+  toOllamaChatMessages,
+  toOllamaTools,
+  fromOllamaToolCalls,
+  isToolsUnsupportedError,
+} from '../ollama/messages.js';
 import { FunctionDeclaration } from '../tools/toolRegistry.js';
+import { applyContextWindow, describeContextWarning } from '../ollama/contextWindow.js';
+import { defaultTokenCalibrator } from '../ollama/tokenCalibration.js';
+import { getToolCallAdapter, ToolCallAdapter, defaultToolCallAdapter } from '../ollama/toolCallAdapters.js';
+import { parseToolCallsWithRepair } from '../utils/toolCallParser.js';
 
 export interface ApiRequest {
   model: string;
-  prompt: string;
+  /** Conversation turns, oldest first - the last one is usually the user's */
+  contents: Content[];
   system?: string;
-  context?: number[];
   options?: {
     temperature?: number;
     top_p?: number;
     top_k?: number;
     repeat_penalty?: number;
+    seed?: number;
+    stop?: string[];
     num_predict?: number;
+    /** Context window - sized automatically from the prompt when omitted */
+    num_ctx?: number;
   };
   stream?: boolean;
   functions?: FunctionDeclaration[];
@@ -35,64 +63,112 @@ export interface ApiResponse {
   model: string;
   created_at: string;
   done: boolean;
-  context?: number[];
   total_duration?: number;
   load_duration?: number;
   prompt_eval_count?: number;
   prompt_eval_duration?: number;
   eval_count?: number;
   eval_duration?: number;
+  /** First function call, kept for callers that only handle one */
   function_call?: FunctionCall;
+  /** Every function call found in the reply, in order */
+  function_calls?: FunctionCall[];
+  /** Reasoning a thinking model returned separately from the reply */
+  thinking?: string;
+  /** Set when the conversation is close to or past the model's context limit */
+  context_warning?: string;
 }
 
+/** Receives reply text as it streams in */
+export type TextStreamHandler = (text: string) => void;
+
 export interface ApiServiceConfig {
+  /** Which kind of server `host` is - Ollama unless set */
+  backend?: BackendKind;
   host?: string;
+  /** Several Ollama servers, in order of preference - takes the place of `host` */
+  hosts?: OllamaHostConfig[];
+  /** Bearer token for OpenAI-compatible servers that require one */
+  apiKey?: string;
+  /** Record, replay or script the Ollama traffic */
+  transport?: BackendTransportConfig;
   defaultModel?: string;
   timeout?: number;
   retries?: number;
   temperature?: number;
+  /** Model used for embeddings, separate from the chat model */
+  embeddingModel?: string;
+  /** How long the chat model stays loaded after each request, e.g. '30m' or -1 for forever */
+  keepAlive?: OllamaKeepAlive;
 }
 
+/**
+ * Characters held back while streaming so a tool-call marker split across
+ * chunks is never shown half-printed
+ */
+const STREAM_HOLDBACK_CHARS = 16;
+
 /**
  * Professional Ollama API Service following Claude Code patterns
+ *
+ * Chat, streaming and embeddings go through whichever backend is
+ * configured; pulling, deleting and residency are Ollama-only.
  */
 export class OllamaApiService {
-  private client: OllamaClient;
-  private modelManager: OllamaModelManager;
+  private backend: LlmBackend;
+  /** The same client as `backend` when it's Ollama, for Ollama-only operations */
+  private ollama: OllamaClient | null;
+  /** Capability discovery needs /api/show, so it's Ollama-only too */
+  private modelManager: OllamaModelManager | null;
   private config: ApiServiceConfig;
+  private nativeToolSupport: Map<string, boolean> = new Map();
+  private toolCallAdapter: ToolCallAdapter = defaultToolCallAdapter;
 
   constructor(config: ApiServiceConfig = {}) {
+    const backend = config.backend || 'ollama';
     this.config = {
-      host: config.host || 'http://localhost:11434',
+      backend,
+      host: config.host || DEFAULT_BACKEND_HOSTS[backend],
       defaultModel: config.defaultModel || 'qwen3:latest',
       timeout: config.timeout || 120000,
       retries: config.retries || 3,
       temperature: config.temperature || 0.7,
+      embeddingModel: config.embeddingModel || DEFAULT_EMBEDDING_MODEL,
       ...config
     };
 
-    this.client = new OllamaClient({
-      host: this.config.host,
-      timeout: this.config.timeout,
-      retries: this.config.retries
-    });
-
-    this.modelManager = new OllamaModelManager();
+    this.backend = createLlmBackend(
+      {
+        type: backend,
+        host: this.config.host,
+        hosts: this.config.hosts,
+        apiKey: this.config.apiKey,
+        transport: this.config.transport
+      },
+      { timeout: this.config.timeout, retries: this.config.retries }
+    );
+    this.ollama = this.backend instanceof OllamaClient ? this.backend : null;
+    this.modelManager = this.ollama ? new OllamaModelManager(this.ollama) : null;
   }
 
   /**
    * Initialize the service and validate configuration
    */
   async initialize(): Promise<void> {
-    const isHealthy = await this.client.checkHealth();
+    const isHealthy = await this.backend.checkHealth();
     if (!isHealthy) {
-      throw new Error(`Ollama service not available at ${this.config.host}`);
+      throw new Error(this.ollama
+        ? `Ollama service not available at ${this.config.hosts?.map(host => host.url).join(', ') || this.config.host}`
+        : `OpenAI-compatible server not available at ${this.config.host}`);
     }
 
     // Get available models
-    const models = await this.client.listModels();
+    const models = await this.backend.listModels();
 
     // Check if no models are available at all
+    if ((!models || models.length === 0) && !this.ollama) {
+      throw new Error(`The server at ${this.config.host} lists no models. Start it with a model loaded.`);
+    }
     if (!models || models.length === 0) {
       throw new Error(`No Ollama models are available. Please install a model first by running:\n  ollama pull <model-name>\n\nPopular options: ollama pull llama3.2, ollama pull qwen2.5, ollama pull mistral`);
     }
@@ -109,90 +185,253 @@ export class OllamaApiService {
     } else {
       console.log(`✅ Using model: '${this.config.defaultModel}'`);
     }
+
+    this.selectToolCallAdapter(this.config.defaultModel!, models);
+    await this.primeToolSupport(this.config.defaultModel!);
   }
 
   /**
    * Generate content with consistent API patterns and function calling support
+   *
+   * Tools go out natively when the model accepts them; models that reject the
+   * tools field fall back to the prompt-injected JSON protocol from then on.
+   * Aborting `signal` cancels the request; the abort error is rethrown as is.
+   * With `onText` the reply is streamed: text is passed on as it arrives,
+   * up to the point where a tool call starts, and the complete response is
+   * returned once the stream ends.
    */
-  async generateContent(request: ApiRequest): Promise<ApiResponse> {
-    const startTime = performance.now();
+  async generateContent(
+    request: ApiRequest,
+    signal?: AbortSignal,
+    onText?: TextStreamHandler,
+    onThinking?: TextStreamHandler
+  ): Promise<ApiResponse> {
+    const model = request.model || this.config.defaultModel!;
     
     try {
-      // Prepare system prompt with function calling instructions if functions are provided
-      let systemPrompt = request.system || '';
+      if (this.hasFunctions(request) && this.supportsNativeTools(model)) {
+        try {
+          return await this.sendChat(request, model, true, signal, onText, onThinking);
+        } catch (error) {
+          if (!isToolsUnsupportedError(error)) {
+            throw error;
+          }
+          console.log(`⚠️  ${model} has no native tool support, using prompt-based function calling`);
+          this.nativeToolSupport.set(model, false);
+        }
+      }
+
+      return await this.sendChat(request, model, this.supportsNativeTools(model), signal, onText, onThinking);
       
-      if (request.functions && request.functions.length > 0) {
-        systemPrompt += this.createFunctionCallingPrompt(request.functions);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
       }
+      throw new Error(`Content generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      const ollamaRequest = {
-        model: request.model || this.config.defaultModel!,
-        prompt: request.prompt,
-        system: systemPrompt,
-        context: request.context,
-        stream: false,
-        options: {
-          temperature: request.options?.temperature ?? this.config.temperature,
-          top_p: request.options?.top_p,
-          top_k: request.options?.top_k,
-          repeat_penalty: request.options?.repeat_penalty,
-          num_predict: request.options?.num_predict,
-        }
-      };
+  /**
+   * Whether a model takes the native tools field (assumed until Ollama says otherwise)
+   */
+  supportsNativeTools(modelName: string): boolean {
+    return this.nativeToolSupport.get(modelName) !== false;
+  }
 
-      const response = await this.client.generate(ollamaRequest);
-      
-      // Track model usage
-      const responseTime = performance.now() - startTime;
-      await this.modelManager.updateModelUsage(ollamaRequest.model, responseTime);
-
-      // Parse function calls if present
-      const transformedResponse = this.transformResponse(response);
-      if (request.functions && request.functions.length > 0) {
-        console.log('🔍 Checking for function calls in response:', transformedResponse.response.substring(0, 200) + '...');
-        const functionCall = this.extractFunctionCall(transformedResponse.response);
-        if (functionCall) {
-          console.log('✅ Function call detected:', functionCall);
-          transformedResponse.function_call = functionCall;
-        } else {
-          console.log('❌ No function call detected in response');
+  /**
+   * Send one chat request, using either native tools or the prompt protocol
+   */
+  private async sendChat(
+    request: ApiRequest,
+    model: string,
+    nativeTools: boolean,
+    signal?: AbortSignal,
+    onText?: TextStreamHandler,
+    onThinking?: TextStreamHandler
+  ): Promise<ApiResponse> {
+    const startTime = performance.now();
+    const hasFunctions = this.hasFunctions(request);
+
+    // Prompt protocol: describe the functions in the system prompt instead
+    let systemPrompt = request.system || '';
+    if (hasFunctions && !nativeTools) {
+      systemPrompt += this.toolCallAdapter.renderToolPrompt(request.functions!);
+    }
+
+    const ollamaRequest: OllamaChatRequest = {
+      model,
+      messages: toOllamaChatMessages(request.contents, systemPrompt, {
+        nativeTools,
+        formatToolCall: this.toolCallAdapter.formatToolCall
+      }),
+      ...(hasFunctions && nativeTools ? { tools: toOllamaTools(request.functions!) } : {}),
+      ...(await this.supportsThinking(model) ? { think: true } : {}),
+      stream: false,
+      options: {
+        temperature: request.options?.temperature ?? this.config.temperature,
+        top_p: request.options?.top_p,
+        top_k: request.options?.top_k,
+        repeat_penalty: request.options?.repeat_penalty,
+        seed: request.options?.seed,
+        stop: request.options?.stop,
+        num_predict: request.options?.num_predict,
+        num_ctx: request.options?.num_ctx,
+      },
+      keep_alive: this.config.keepAlive
+    };
+
+    const contextPlan = applyContextWindow(
+      ollamaRequest,
+      await this.getContextLimit(model),
+      defaultTokenCalibrator.getCharsPerToken(model)
+    );
+
+    const toolCallMarker = hasFunctions && !nativeTools ? this.toolCallAdapter.toolCallMarker : undefined;
+    const response = onText
+      ? await this.streamChat(ollamaRequest, onText, toolCallMarker, signal, onThinking)
+      : await this.backend.chat(ollamaRequest, signal);
+    defaultTokenCalibrator.recordChat(ollamaRequest, response);
+    
+    // Track model usage
+    const responseTime = performance.now() - startTime;
+    await this.modelManager?.updateModelUsage(ollamaRequest.model, responseTime);
+
+    // Parse function calls if present
+    const transformedResponse = this.transformResponse(response);
+    transformedResponse.context_warning = describeContextWarning(contextPlan, model);
+    if (hasFunctions) {
+      const functionCalls = nativeTools
+        ? this.fromNativeToolCalls(response)
+        : await this.extractFunctionCalls(ollamaRequest, transformedResponse.response, request.functions!, signal);
+
+      if (functionCalls.length > 0) {
+        console.log('✅ Function call detected:', functionCalls);
+        transformedResponse.function_call = functionCalls[0];
+        transformedResponse.function_calls = functionCalls;
+      } else {
+        console.log('❌ No function call detected in response');
+      }
+    }
+
+    return transformedResponse;
+  }
+
+  /**
+   * Stream a chat reply into `onText` and assemble the full response
+   *
+   * Once `toolCallMarker` shows up the rest of the reply is a tool call -
+   * it's kept out of the live text and parsed when the stream ends.
+   * Reasoning streams separately into `onThinking`.
+   */
+  private async streamChat(
+    ollamaRequest: OllamaChatRequest,
+    onText: TextStreamHandler,
+    toolCallMarker?: RegExp,
+    signal?: AbortSignal,
+    onThinking?: TextStreamHandler
+  ): Promise<OllamaChatResponse> {
+    let content = '';
+    let thinking = '';
+    let shown = 0;
+    let toolCallStarted = false;
+    const toolCalls: OllamaToolCall[] = [];
+    let finalChunk: OllamaChatResponse | undefined;
+
+    for await (const chunk of this.backend.chatStream(ollamaRequest, signal)) {
+      content += chunk.message.content;
+      if (chunk.message.thinking) {
+        thinking += chunk.message.thinking;
+        onThinking?.(chunk.message.thinking);
+      }
+      if (chunk.message.tool_calls) {
+        toolCalls.push(...chunk.message.tool_calls);
+      }
+      if (chunk.done) {
+        finalChunk = chunk;
+      }
+
+      if (!toolCallStarted) {
+        const markerIndex = toolCallMarker ? content.search(toolCallMarker) : -1;
+        toolCallStarted = markerIndex >= 0;
+
+        const showUpTo = toolCallStarted
+          ? markerIndex
+          : toolCallMarker ? content.length - STREAM_HOLDBACK_CHARS : content.length;
+        if (showUpTo > shown) {
+          onText(content.slice(shown, showUpTo));
+          shown = showUpTo;
         }
       }
+    }
 
-      return transformedResponse;
-      
-    } catch (error) {
-      throw new Error(`Content generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    if (!toolCallStarted && content.length > shown) {
+      onText(content.slice(shown));
     }
+
+    return {
+      model: ollamaRequest.model,
+      created_at: new Date().toISOString(),
+      done: true,
+      ...finalChunk,
+      message: {
+        role: 'assistant',
+        content,
+        ...(thinking ? { thinking } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      }
+    };
   }
 
   /**
    * Generate streaming content
    */
-  async* generateContentStream(request: ApiRequest): AsyncGenerator<ApiResponse> {
+  async* generateContentStream(request: ApiRequest, signal?: AbortSignal): AsyncGenerator<ApiResponse> {
     try {
-      const ollamaRequest = {
+      const ollamaRequest: OllamaChatRequest = {
         model: request.model || this.config.defaultModel!,
-        prompt: request.prompt,
-        system: request.system,
-        context: request.context,
+        messages: toOllamaChatMessages(request.contents, request.system, {
+          nativeTools: this.supportsNativeTools(request.model || this.config.defaultModel!),
+          formatToolCall: this.toolCallAdapter.formatToolCall
+        }),
         stream: true,
+        ...(await this.supportsThinking(request.model || this.config.defaultModel!) ? { think: true } : {}),
         options: {
           temperature: request.options?.temperature ?? this.config.temperature,
           top_p: request.options?.top_p,
           top_k: request.options?.top_k,
           repeat_penalty: request.options?.repeat_penalty,
+          seed: request.options?.seed,
+          stop: request.options?.stop,
           num_predict: request.options?.num_predict,
-        }
+          num_ctx: request.options?.num_ctx,
+        },
+        keep_alive: this.config.keepAlive
       };
 
-      const responseStream = this.client.generateStream(ollamaRequest);
+      const contextPlan = applyContextWindow(
+        ollamaRequest,
+        await this.getContextLimit(ollamaRequest.model),
+        defaultTokenCalibrator.getCharsPerToken(ollamaRequest.model)
+      );
+      const contextWarning = describeContextWarning(contextPlan, ollamaRequest.model);
+
+      const responseStream = this.backend.chatStream(ollamaRequest, signal);
+      let fullText = '';
       
       for await (const chunk of responseStream) {
-        yield this.transformResponse(chunk);
+        fullText += chunk.message.content;
+        const transformed = this.transformResponse(chunk);
+        if (chunk.done) {
+          transformed.context_warning = contextWarning;
+          defaultTokenCalibrator.recordChat(ollamaRequest, { ...chunk, message: { ...chunk.message, content: fullText } });
+        }
+        yield transformed;
       }
       
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       throw new Error(`Streaming generation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -200,22 +439,94 @@ export class OllamaApiService {
   /**
    * Get available models
    */
-  async getAvailableModels(): Promise<Array<{ name: string; size: number; modified_at: string }>> {
-    return await this.client.listModels();
+  async getAvailableModels(): Promise<BackendModel[]> {
+    return await this.backend.listModels();
+  }
+
+  /**
+   * The server chat requests are going to - with several Ollama hosts, the one last used
+   */
+  getActiveHost(): string {
+    return this.ollama ? this.ollama.getActiveHost() : this.config.host!;
+  }
+
+  /**
+   * Which kind of server this service talks to
+   */
+  getBackendKind(): BackendKind {
+    return this.backend.kind;
+  }
+
+  /**
+   * Embed texts with the configured embedding model, one vector per text
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    try {
+      const response = await this.backend.embed({ model: this.getEmbeddingModel(), input: texts }, signal);
+      return response.embeddings;
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new Error(`Embedding failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the model used for embeddings
+   */
+  getEmbeddingModel(): string {
+    // An explicit undefined in the config would override the default above
+    return this.config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  }
+
+  /**
+   * Pull a model from the registry, yielding download progress
+   */
+  async* pullModel(modelName: string, signal?: AbortSignal): AsyncGenerator<OllamaPullProgress> {
+    yield* this.requireOllama('Pulling models').pullModelStream(modelName, signal);
+    this.modelManager?.invalidateCache();
+  }
+
+  /**
+   * Delete an installed model
+   */
+  async deleteModel(modelName: string): Promise<void> {
+    if (modelName === this.config.defaultModel) {
+      throw new Error(`Cannot delete the model in use: ${modelName}`);
+    }
+    await this.requireOllama('Deleting models').deleteModel(modelName);
+    this.modelManager?.invalidateCache();
+  }
+
+  /**
+   * Create a model derived from an installed one, yielding build progress
+   */
+  async* createModel(request: OllamaCreateRequest, signal?: AbortSignal): AsyncGenerator<OllamaPullProgress> {
+    yield* this.requireOllama('Creating models').createModelStream(request, signal);
+    this.modelManager?.invalidateCache();
+  }
+
+  /**
+   * Copy a model under another name
+   */
+  async copyModel(source: string, destination: string): Promise<void> {
+    await this.requireOllama('Copying models').copyModel(source, destination);
+    this.modelManager?.invalidateCache();
   }
 
   /**
    * Check service health
    */
   async checkHealth(): Promise<boolean> {
-    return await this.client.checkHealth();
+    return await this.backend.checkHealth();
   }
 
   /**
    * Get model information
    */
   async getModelInfo(modelName: string): Promise<any> {
-    return await this.client.getModelInfo(modelName);
+    return await this.requireOllama('Model information').getModelInfo(modelName);
   }
 
   /**
@@ -229,7 +540,97 @@ export class OllamaApiService {
       throw new Error(`Model '${modelName}' not found. Available models: ${models.map(m => m.name).join(', ')}`);
     }
     
+    const previousModel = this.config.defaultModel;
     this.config.defaultModel = modelName;
+    this.selectToolCallAdapter(modelName, models);
+    await this.primeToolSupport(modelName);
+
+    // Free the old model's memory before the new one needs it
+    if (this.ollama && previousModel && previousModel !== modelName) {
+      try {
+        await this.ollama.unloadModel(previousModel);
+      } catch (error) {
+        console.warn(`Failed to unload ${previousModel}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Load a model into memory ahead of the first request
+   *
+   * Resolves once the model is resident. Ollama still reloads it if the
+   * first chat asks for a different num_ctx, but the weights are then
+   * read from the page cache instead of disk.
+   */
+  async preloadModel(modelName: string = this.config.defaultModel!): Promise<void> {
+    // Other servers load their model when they start
+    await this.ollama?.loadModel(modelName, this.config.keepAlive);
+  }
+
+  /**
+   * Models currently loaded in Ollama's memory, with their sizes
+   */
+  async getRunningModels(): Promise<OllamaRunningModel[]> {
+    return this.ollama ? await this.ollama.listRunningModels() : [];
+  }
+
+  /**
+   * Get what a model can do - context length, tools, vision, thinking
+   */
+  async getModelCapabilities(modelName: string = this.config.defaultModel!): Promise<ModelCapabilities | null> {
+    const model = await this.modelManager?.getModel(modelName);
+    return model ? model.capabilities : null;
+  }
+
+  /**
+   * Tool-call format used when the current model has no native tool support
+   */
+  getToolCallAdapter(): ToolCallAdapter {
+    return this.toolCallAdapter;
+  }
+
+  /**
+   * Whether to ask for reasoning separately - only models that do it accept `think`
+   */
+  private async supportsThinking(modelName: string): Promise<boolean> {
+    const model = await this.modelManager?.getModel(modelName);
+    return !!model?.capabilities.supportsThinking;
+  }
+
+  /**
+   * The model's real context length - only trusted when Ollama reported it
+   */
+  private async getContextLimit(modelName: string): Promise<number | undefined> {
+    const model = await this.modelManager?.getModel(modelName);
+    return model?.capabilitiesSource === 'ollama' ? model.capabilities.maxContextLength : undefined;
+  }
+
+  /**
+   * Skip the doomed native-tools attempt when /api/show already says no
+   */
+  private async primeToolSupport(modelName: string): Promise<void> {
+    const model = await this.modelManager?.getModel(modelName);
+    if (model?.capabilitiesSource === 'ollama' && !model.capabilities.supportsTools) {
+      this.nativeToolSupport.set(modelName, false);
+    }
+  }
+
+  /**
+   * Pick the tool-call format for a model from the family Ollama reports
+   */
+  private selectToolCallAdapter(modelName: string, models: BackendModel[]): void {
+    const model = models.find(m => m.name === modelName);
+    this.toolCallAdapter = getToolCallAdapter({ name: modelName, family: model?.details?.family });
+  }
+
+  /**
+   * The Ollama client, for operations other backends don't offer
+   */
+  private requireOllama(operation: string): OllamaClient {
+    if (!this.ollama) {
+      throw new Error(`${operation} is only supported with the Ollama backend`);
+    }
+    return this.ollama;
   }
 
   /**
@@ -249,19 +650,19 @@ export class OllamaApiService {
   /**
    * Transform Ollama response to standard API response
    */
-  private transformResponse(ollamaResponse: OllamaGenerateResponse): ApiResponse {
+  private transformResponse(ollamaResponse: OllamaChatResponse): ApiResponse {
     return {
-      response: ollamaResponse.response,
+      response: ollamaResponse.message.content,
       model: ollamaResponse.model,
       created_at: ollamaResponse.created_at,
       done: ollamaResponse.done,
-      context: ollamaResponse.context,
       total_duration: ollamaResponse.total_duration,
       load_duration: ollamaResponse.load_duration,
       prompt_eval_count: ollamaResponse.prompt_eval_count,
       prompt_eval_duration: ollamaResponse.prompt_eval_duration,
       eval_count: ollamaResponse.eval_count,
       eval_duration: ollamaResponse.eval_duration,
+      ...(ollamaResponse.message.thinking ? { thinking: ollamaResponse.message.thinking } : {}),
     };
   }
 
@@ -271,14 +672,13 @@ export class OllamaApiService {
   createConversationalRequest(
     userInput: string, 
     systemPrompt: string,
-    conversationContext?: number[],
+    history: Content[] = [],
     options?: ApiRequest['options']
   ): ApiRequest {
     return {
       model: this.config.defaultModel!,
-      prompt: userInput,
+      contents: [...history, { role: 'user', parts: [{ text: userInput }] }],
       system: systemPrompt,
-      context: conversationContext,
       options: {
         temperature: this.config.temperature,
         ...options
@@ -287,91 +687,51 @@ export class OllamaApiService {
   }
 
   /**
-   * Create function calling prompt instructions
+   * Convert native tool calls from a chat response
    */
-  private createFunctionCallingPrompt(functions: FunctionDeclaration[]): string {
-    const functionDescriptions = functions.map(fn => {
-      const params = Object.entries(fn.parameters.properties)
-        .map(([name, prop]) => `${name}: ${prop.description}`)
-        .join(', ');
-      
-      return `${fn.name}(${params}) - ${fn.description}`;
-    }).join('\n');
-
-    return `
-
-FUNCTION CALLING INSTRUCTIONS:
-You have access to the following functions that you can call to perform actions:
-
-${functionDescriptions}
-
-When the user asks you to perform an action that requires using one of these functions, you MUST respond with ONLY this JSON format, nothing else:
-
-{
-  "function_call": {
-    "name": "function_name",
-    "arguments": {
-      "parameter_name": "parameter_value"
-    }
+  private fromNativeToolCalls(response: OllamaChatResponse): FunctionCall[] {
+    return fromOllamaToolCalls(response.message.tool_calls)
+      .map(call => ({ name: call.name, arguments: call.args }));
   }
-}
-
-CRITICAL RULES - FOLLOW EXACTLY:
-1. CREATE/WRITE/SAVE file → MUST use write_file function
-2. READ/SHOW/VIEW file → MUST use read_file function  
-3. RUN/EXECUTE command → MUST use run_shell_command function
-4. LIST/SHOW directory → MUST use list_directory function
 
-IMPORTANT: When user wants file operations, respond with ONLY the JSON function call, NOTHING ELSE!
-
-User: "create a file called hello.py with print hello world"
-You MUST respond: {"function_call":{"name":"write_file","arguments":{"file_path":"${process.cwd()}/hello.py","content":"print('Hello, World!')"}}}
-
-User: "make a hello world python script named charizard.py"
-You MUST respond: {"function_call":{"name":"write_file","arguments":{"file_path":"${process.cwd()}/charizard.py","content":"print('Hello, World!')"}}}
-
-NO explanations, NO code blocks, NO other text - ONLY the JSON when user wants file operations!
-
-`;
+  /**
+   * Whether the request offers any functions to call
+   */
+  private hasFunctions(request: ApiRequest): boolean {
+    return !!request.functions && request.functions.length > 0;
   }
 
   /**
-   * Extract function call from response text with robust parsing
-   * TODO: Improve JSON parsing reliability - contributions welcome!
+   * Extract function calls from response text, with one repair round-trip
+   * when the model produced a call that isn't valid JSON
    */
-  private extractFunctionCall(responseText: string): FunctionCall | null {
-    try {
-      let jsonContent = responseText.trim();
-
-      // Handle markdown code blocks (```json...``` or ```...```)
-      const codeBlockPatterns = [
-        /```json\s*\n?([\s\S]*?)\n?```/i,
-        /```\s*\n?([\s\S]*?)\n?```/i
-      ];
-
-      for (const pattern of codeBlockPatterns) {
-        const match = jsonContent.match(pattern);
-        if (match) {
-          jsonContent = match[1].trim();
-          break;
-        }
-      }
-
-      // Try direct JSON parsing
-      if (jsonContent.startsWith('{') && jsonContent.endsWith('}')) {
-        const parsed = JSON.parse(jsonContent);
-        if (parsed.function_call && parsed.function_call.name) {
-          return {
-            name: parsed.function_call.name,
-            arguments: parsed.function_call.arguments || {}
-          };
-        }
-      }
-    } catch (error) {
-      // Function call extraction failed - silently continue
-    }
-
-    return null;
+  private async extractFunctionCalls(
+    ollamaRequest: OllamaChatRequest,
+    responseText: string,
+    functions: FunctionDeclaration[],
+    signal?: AbortSignal
+  ): Promise<FunctionCall[]> {
+    console.log('🔍 Checking for function calls in response:', responseText.substring(0, 200) + '...');
+
+    const result = await parseToolCallsWithRepair(
+      responseText,
+      async (repairPrompt) => {
+        console.log('🔧 Tool call JSON was invalid, asking the model to re-emit it');
+        const repair = await this.backend.chat({
+          ...ollamaRequest,
+          messages: [
+            ...ollamaRequest.messages,
+            { role: 'assistant', content: responseText },
+            { role: 'user', content: repairPrompt }
+          ]
+        }, signal);
+        return repair.message.content;
+      },
+      { knownTools: functions.map(fn => fn.name) },
+      this.toolCallAdapter
+    );
+
+    return result.calls.map(call => ({ name: call.name, arguments: call.args }));
   }
 
   /**
@@ -41,13 +41,13 @@ async function main() {
 
     // Show a fancy startup message because why not
     console.log(chalk.blue('🚀 Starting Numidium-Local...'));
-    console.log(chalk.gray('Press Ctrl+C or ESC to exit, "/" for commands'));
+    console.log(chalk.gray('Press ESC to cancel a response, Ctrl+C to exit, "/" for commands'));
 
     // Dramatic pause for effect
     await new Promise(resolve => setTimeout(resolve, 1000));
 
     try {
-      render(React.createElement(App));
+      render(React.createElement(App), { exitOnCtrlC: false });
     } catch (error) {
       console.error(chalk.red('Interactive mode not supported in this environment.'));
       console.log(chalk.yellow('Please run Numidium-Local in a proper terminal for the full interactive experience.'));
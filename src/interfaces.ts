@@ -10,6 +10,13 @@ import {
   EmbedContentResponse,
   EmbedContentParameters,
 } from './types.js';
+import type {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaHostConfig,
+} from './ollama/client.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -30,6 +37,71 @@ export interface ContentGenerator {
   embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse>;
 }
 
+/**
+ * Kinds of model server we can talk to
+ */
+export type BackendKind = 'ollama' | 'openai';
+
+/**
+ * Which server to use and how to reach it
+ */
+export interface BackendConfig {
+  /** 'ollama', or 'openai' for any OpenAI-compatible server (llama-server, LM Studio, vLLM) */
+  type: BackendKind;
+  /** Base URL - for OpenAI-compatible servers including the /v1 prefix */
+  host?: string;
+  /** Several Ollama servers to fail over and route models between - takes the place of `host` */
+  hosts?: OllamaHostConfig[];
+  /** Bearer token, for servers started with an API key */
+  apiKey?: string;
+  /** Record, replay or script the traffic instead of plain HTTP (Ollama only) */
+  transport?: BackendTransportConfig;
+}
+
+/**
+ * Stand-ins for a live server, for reproducible runs
+ */
+export interface BackendTransportConfig {
+  /** Write every request and response to this JSONL cassette */
+  record?: string;
+  /** Serve responses from this cassette - no server needed */
+  replay?: string;
+  /** Answer like Ollama from this file of canned replies - no model needed */
+  script?: string;
+}
+
+/**
+ * A model as any backend lists it - Ollama fills in everything,
+ * OpenAI-compatible servers usually just the name
+ */
+export interface BackendModel {
+  name: string;
+  /** Bytes on disk, when known */
+  size?: number;
+  digest?: string;
+  modified_at?: string;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+/**
+ * The operations every model server supports
+ *
+ * Requests and responses use the Ollama chat shape the rest of the code
+ * already speaks; other backends translate to and from their own API.
+ */
+export interface LlmBackend {
+  readonly kind: BackendKind;
+  checkHealth(): Promise<boolean>;
+  listModels(): Promise<BackendModel[]>;
+  chat(request: OllamaChatRequest, signal?: AbortSignal): Promise<OllamaChatResponse>;
+  chatStream(request: OllamaChatRequest, signal?: AbortSignal): AsyncGenerator<OllamaChatResponse>;
+  embed(request: OllamaEmbedRequest, signal?: AbortSignal): Promise<OllamaEmbedResponse>;
+}
+
 /**
  * Utility function to get error message from unknown error type
  */
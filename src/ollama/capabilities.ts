@@ -0,0 +1,118 @@
+/**
+ * Model capability discovery
+ *
+ * Reads what a model can actually do from /api/show instead of guessing
+ * from its name: context length from the GGUF metadata, tool and thinking
+ * support from the chat template, vision from the projector. Results are
+ * cached on disk by model digest, so each build is only inspected once.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { OllamaModelInfo } from './client.js';
+
+export interface DiscoveredCapabilities {
+  /** Maximum context the model was trained for, when the metadata says */
+  contextLength?: number;
+  supportsTools: boolean;
+  supportsVision: boolean;
+  supportsThinking: boolean;
+}
+
+/**
+ * Work out a model's capabilities from its /api/show response
+ *
+ * Newer Ollama versions list capabilities directly; older ones only give
+ * us the template and metadata, so both are checked.
+ */
+export function discoverCapabilities(info: OllamaModelInfo): DiscoveredCapabilities {
+  const reported = info.capabilities || [];
+  const template = info.template || '';
+  const modelInfo = info.model_info || {};
+
+  return {
+    contextLength: findContextLength(modelInfo),
+    supportsTools: reported.includes('tools') || /\.Tools\b|<tool_call>|\[TOOL_CALLS\]/.test(template),
+    supportsVision: reported.includes('vision')
+      || !!info.projector_info
+      || Object.keys(modelInfo).some(key => key.includes('.vision.')),
+    supportsThinking: reported.includes('thinking') || /\.Think\b|<think>/.test(template),
+  };
+}
+
+/**
+ * Disk cache of discovered capabilities, keyed by model digest
+ */
+export class ModelCapabilityCache {
+  private entries: Map<string, DiscoveredCapabilities> | null = null;
+  private dirty = false;
+
+  constructor(
+    private readonly filePath: string = path.join(os.homedir(), '.numidium', 'model-capabilities.json')
+  ) {}
+
+  /**
+   * Get cached capabilities for a digest
+   */
+  async get(digest: string): Promise<DiscoveredCapabilities | undefined> {
+    const entries = await this.load();
+    return entries.get(digest);
+  }
+
+  /**
+   * Remember capabilities for a digest (written on the next save)
+   */
+  async set(digest: string, capabilities: DiscoveredCapabilities): Promise<void> {
+    const entries = await this.load();
+    entries.set(digest, capabilities);
+    this.dirty = true;
+  }
+
+  /**
+   * Write pending entries to disk
+   */
+  async save(): Promise<void> {
+    if (!this.dirty || !this.entries) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(Object.fromEntries(this.entries), null, 2), 'utf-8');
+      this.dirty = false;
+    } catch (error) {
+      // The cache only saves a round-trip - never fail a request over it
+      console.warn('Failed to save model capability cache:', error);
+    }
+  }
+
+  /**
+   * Read the cache file once, starting empty if it's missing or corrupt
+   */
+  private async load(): Promise<Map<string, DiscoveredCapabilities>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      this.entries = new Map(Object.entries(JSON.parse(content)));
+    } catch {
+      this.entries = new Map();
+    }
+    return this.entries;
+  }
+}
+
+/**
+ * Context length lives under an architecture-prefixed key, e.g. "llama.context_length"
+ */
+function findContextLength(modelInfo: Record<string, unknown>): number | undefined {
+  const architecture = modelInfo['general.architecture'];
+  const key = typeof architecture === 'string' && `${architecture}.context_length` in modelInfo
+    ? `${architecture}.context_length`
+    : Object.keys(modelInfo).find(key => key.endsWith('.context_length'));
+  const value = key ? Number(modelInfo[key]) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
\ No newline at end of file
@@ -0,0 +1,168 @@
+/**
+ * Cassettes - recorded Ollama traffic for deterministic runs
+ *
+ * Recording wraps the real transport and appends every request and its
+ * response to a JSONL file, one exchange per line. Replaying serves those
+ * responses back with no server at all, so a tool-loop bug seen once with
+ * a live model can be reproduced as often as needed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getErrorMessage } from '../interfaces.js';
+import { OllamaFetch } from './client.js';
+
+export interface CassetteEntry {
+  method: string;
+  /** Path on the server, e.g. /api/chat */
+  endpoint: string;
+  /** Parsed request body */
+  request?: unknown;
+  status: number;
+  /** Raw response body - newline-delimited JSON for streamed replies */
+  body: string;
+}
+
+/** Statuses a Response can't be given a body for */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Wrap a transport so every exchange is also written to a cassette
+ *
+ * The file is started fresh. Streamed replies still reach the caller as
+ * they arrive; each exchange is written once its body has been read.
+ */
+export function createRecordingFetch(cassettePath: string, baseFetch: OllamaFetch = fetch): OllamaFetch {
+  fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+  fs.writeFileSync(cassettePath, '');
+
+  // Appends are chained so lines land in the order the bodies finished
+  let writes = Promise.resolve();
+  const append = (entry: CassetteEntry) => {
+    writes = writes
+      .then(() => fs.promises.appendFile(cassettePath, JSON.stringify(entry) + '\n'))
+      .catch(error => console.warn(`⚠️  Failed to write cassette ${cassettePath}: ${getErrorMessage(error)}`));
+  };
+
+  return async (url, init) => {
+    const response = await baseFetch(url, init);
+    const entry = {
+      method: init.method || 'GET',
+      endpoint: new URL(url).pathname,
+      request: parseBody(init.body),
+      status: response.status
+    };
+
+    if (!response.body) {
+      append({ ...entry, body: '' });
+      return response;
+    }
+
+    const [forCaller, forCassette] = response.body.tee();
+    readText(forCassette).then(body => append({ ...entry, body }));
+
+    return new Response(forCaller, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
+
+/**
+ * Serve responses from a cassette instead of a server
+ *
+ * Each request gets the first unused exchange with the same method,
+ * endpoint and body, or failing that the first unused one with the same
+ * method and endpoint. GETs may repeat - health checks and model lists
+ * happen as often as the caller likes - so they fall back to the last
+ * recorded answer once used up.
+ */
+export function createReplayFetch(cassettePath: string): OllamaFetch {
+  const entries = loadCassette(cassettePath);
+  const used = new Set<number>();
+
+  return async (url, init) => {
+    const method = init.method || 'GET';
+    const endpoint = new URL(url).pathname;
+    const requestKey = JSON.stringify(parseBody(init.body));
+
+    const candidates = entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => entry.method === method && entry.endpoint === endpoint);
+    const unused = candidates.filter(({ index }) => !used.has(index));
+
+    const match = unused.find(({ entry }) => JSON.stringify(entry.request) === requestKey)
+      || unused[0]
+      || (method === 'GET' ? candidates[candidates.length - 1] : undefined);
+
+    if (!match) {
+      throw new Error(`Cassette ${cassettePath} has no recorded response left for ${method} ${endpoint}`);
+    }
+    used.add(match.index);
+
+    const { status, body } = match.entry;
+    return new Response(NULL_BODY_STATUSES.includes(status) ? null : body, {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+}
+
+/**
+ * Read every exchange from a cassette file
+ */
+function loadCassette(cassettePath: string): CassetteEntry[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(cassettePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to load cassette ${cassettePath}: ${getErrorMessage(error)}`);
+  }
+
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as CassetteEntry;
+      } catch (error) {
+        throw new Error(`Invalid cassette entry on line ${index + 1} of ${cassettePath}: ${getErrorMessage(error)}`);
+      }
+    });
+}
+
+/**
+ * Request bodies are JSON strings - keep them parsed so cassettes stay readable
+ */
+function parseBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Read a body to the end - a cancelled request still records what arrived
+ */
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+  } catch {
+    // Keep the partial body
+  }
+
+  return text + decoder.decode();
+}
\ No newline at end of file
@@ -11,7 +11,7 @@
  * Handles communication with local Ollama service at localhost:11434.
  */
 
-import { getErrorMessage } from '../interfaces.js';
+import { getErrorMessage, LlmBackend } from '../interfaces.js';
 
 export interface OllamaModel {
   name: string;
@@ -33,12 +33,46 @@ export interface OllamaModelInfo {
   modified_at: string;
   modelfile: string;
   template: string;
+  /** Modelfile PARAMETER lines, one per line */
+  parameters?: string;
   details: {
     families: string[];
     family: string;
     parameter_size: string;
     quantization_level: string;
   };
+  /** GGUF metadata, e.g. "qwen3.context_length" */
+  model_info?: Record<string, unknown>;
+  /** Present on multimodal models */
+  projector_info?: Record<string, unknown>;
+  /** Reported by newer Ollama versions: "completion", "tools", "vision", "thinking", ... */
+  capabilities?: string[];
+}
+
+/**
+ * How long a model stays in memory after a request - a duration like "30m",
+ * seconds as a number, 0 to unload at once or -1 to keep it loaded
+ */
+export type OllamaKeepAlive = string | number;
+
+/**
+ * A model currently loaded in memory, from /api/ps
+ */
+export interface OllamaRunningModel {
+  name: string;
+  model: string;
+  /** Total bytes in memory */
+  size: number;
+  /** Bytes of that on the GPU */
+  size_vram: number;
+  digest: string;
+  /** When keep_alive runs out */
+  expires_at: string;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
 }
 
 export interface OllamaGenerateRequest {
@@ -51,7 +85,9 @@ export interface OllamaGenerateRequest {
     top_p?: number;
     top_k?: number;
     num_predict?: number;
+    num_ctx?: number;
   };
+  keep_alive?: OllamaKeepAlive;
 }
 
 export interface OllamaGenerateResponse {
@@ -68,54 +104,238 @@ export interface OllamaGenerateResponse {
   eval_duration?: number;
 }
 
+export interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Reasoning from thinking models, returned separately when `think` is set */
+  thinking?: string;
+  /** Base64-encoded images, for vision models */
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  /** Name of the tool whose result this message carries (role 'tool' only) */
+  tool_name?: string;
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: string;
+      properties: Record<string, any>;
+      required?: string[];
+    };
+  };
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaChatMessage[];
+  tools?: OllamaTool[];
+  stream?: boolean;
+  /** Return reasoning in message.thinking instead of inline <think> tags */
+  think?: boolean | 'low' | 'medium' | 'high';
+  options?: {
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    repeat_penalty?: number;
+    seed?: number;
+    stop?: string[];
+    num_predict?: number;
+    num_ctx?: number;
+  };
+  keep_alive?: OllamaKeepAlive;
+}
+
+export interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message: OllamaChatMessage;
+  done: boolean;
+  done_reason?: string;
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
+}
+
 export interface OllamaError {
   error: string;
 }
 
+/**
+ * One progress event from /api/pull
+ *
+ * Layers download one at a time: `digest` names the layer and
+ * `completed`/`total` count its bytes. Other statuses ("pulling manifest",
+ * "verifying sha256 digest", "success") carry no byte counts.
+ */
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+/**
+ * Body of /api/create - a new model derived from an installed one
+ *
+ * The same as a Modelfile's FROM, SYSTEM and PARAMETER lines.
+ */
+export interface OllamaCreateRequest {
+  /** Name for the new model */
+  model: string;
+  /** Model to build on */
+  from: string;
+  system?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface OllamaEmbedRequest {
+  model: string;
+  input: string | string[];
+  /** Cut inputs that exceed the model's context instead of failing */
+  truncate?: boolean;
+  options?: {
+    num_ctx?: number;
+  };
+  keep_alive?: OllamaKeepAlive;
+}
+
+export interface OllamaEmbedResponse {
+  model: string;
+  /** One vector per input, in input order */
+  embeddings: number[][];
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+}
+
+/**
+ * How the client reaches the server - global fetch unless a recording,
+ * replaying or scripted transport stands in for it
+ */
+export type OllamaFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * One Ollama server in a multi-host setup
+ */
+export interface OllamaHostConfig {
+  url: string;
+  /** Lower is preferred - defaults to the host's position in the list */
+  priority?: number;
+}
+
+/**
+ * What the client last saw of a host
+ */
+export interface OllamaHostStatus {
+  url: string;
+  priority: number;
+  healthy: boolean;
+  /** Installed models from /api/tags - null until first checked */
+  models: string[] | null;
+  /** Models loaded in memory from /api/ps */
+  loadedModels: string[];
+}
+
+interface HostState extends OllamaHostStatus {
+  lastHealthCheck: number;
+  lastInventoryCheck: number;
+}
+
 export interface OllamaClientConfig {
   host?: string;
+  /** Several servers to route between - takes the place of `host` */
+  hosts?: OllamaHostConfig[];
   timeout?: number;
   retries?: number;
+  /** Inputs sent per /api/embed request */
+  embedBatchSize?: number;
+  fetch?: OllamaFetch;
 }
 
+/** Health checks give up quickly so a dead host doesn't stall the others */
+const HEALTH_CHECK_TIMEOUT = 5000;
+
 /**
  * Core Ollama HTTP client for LocalGemini CLI
+ *
+ * With several hosts, each request goes to the best healthy host for its
+ * model - one that has it installed, preferably already loaded, then by
+ * priority - and fails over to the next when a host can't be reached.
  */
-export class OllamaClient {
-  private readonly host: string;
+export class OllamaClient implements LlmBackend {
+  readonly kind = 'ollama' as const;
+  private readonly hosts: HostState[];
   private readonly timeout: number;
   private readonly retries: number;
-  private isHealthy: boolean = false;
-  private lastHealthCheck: number = 0;
+  private readonly embedBatchSize: number;
+  private readonly fetch: OllamaFetch;
+  /** The host that served the last chat or generate request */
+  private activeHost: HostState | null = null;
   private readonly healthCheckInterval = 30000; // 30 seconds
 
   constructor(config: OllamaClientConfig = {}) {
-    this.host = config.host || 'http://localhost:11434';
+    const hosts = config.hosts?.length ? config.hosts : [{ url: config.host || 'http://localhost:11434' }];
+    this.hosts = hosts
+      .map((host, index) => ({
+        url: host.url.replace(/\/+$/, ''),
+        priority: host.priority ?? index,
+        healthy: false,
+        models: null,
+        loadedModels: [],
+        lastHealthCheck: 0,
+        lastInventoryCheck: 0
+      }))
+      .sort((a, b) => a.priority - b.priority);
     this.timeout = config.timeout || 120000; // 2 minutes default
     this.retries = config.retries || 3;
+    this.embedBatchSize = config.embedBatchSize || 32;
+    this.fetch = config.fetch || fetch;
   }
 
   /**
-   * Check if Ollama service is running and healthy
+   * Check if Ollama service is running and healthy - on any host
+   *
+   * Results are cached per host. When every host looks down they're all
+   * checked again, so a restarted server is noticed straight away.
    */
   async checkHealth(): Promise<boolean> {
-    const now = Date.now();
-    
-    // Use cached health status if recent
-    if (now - this.lastHealthCheck < this.healthCheckInterval && this.isHealthy) {
-      return this.isHealthy;
+    const cached = await Promise.all(this.hosts.map(host => this.checkHostHealth(host, false)));
+    if (cached.some(Boolean)) {
+      return true;
     }
 
-    try {
-      const response = await this.request('GET', '/');
-      this.isHealthy = response.ok;
-      this.lastHealthCheck = now;
-      return this.isHealthy;
-    } catch (error) {
-      this.isHealthy = false;
-      this.lastHealthCheck = now;
-      return false;
-    }
+    const fresh = await Promise.all(this.hosts.map(host => this.checkHostHealth(host, true)));
+    return fresh.some(Boolean);
+  }
+
+  /**
+   * The host serving the chat model - the best healthy one until a request has gone out
+   */
+  getActiveHost(): string {
+    return (this.activeHost || this.hosts.find(host => host.healthy) || this.hosts[0]).url;
+  }
+
+  /**
+   * Health and inventory of every host, in priority order
+   */
+  getHostStatus(): OllamaHostStatus[] {
+    return this.hosts.map(({ url, priority, healthy, models, loadedModels }) => ({
+      url, priority, healthy, models, loadedModels
+    }));
   }
 
   /**
@@ -123,16 +343,42 @@ export class OllamaClient {
    */
   async listModels(): Promise<OllamaModel[]> {
     await this.ensureHealthy();
-    
-    const response = await this.request('GET', '/api/tags');
-    const data = await response.json();
-    
-    if (!response.ok) {
-      const errorData = data as OllamaError;
-      throw new Error(`Failed to list models: ${errorData.error}`);
+
+    // Every host's models, each name once - from the most preferred host that has it
+    const models = new Map<string, OllamaModel>();
+    for (const data of await this.requestEachHost<{ models: OllamaModel[] }>('/api/tags', 'list models')) {
+      for (const model of data.models || []) {
+        if (!models.has(model.name)) {
+          models.set(model.name, model);
+        }
+      }
     }
-    
-    return (data as { models: OllamaModel[] }).models || [];
+
+    return [...models.values()];
+  }
+
+  /**
+   * List the models currently loaded in memory
+   */
+  async listRunningModels(): Promise<OllamaRunningModel[]> {
+    await this.ensureHealthy();
+
+    const results = await this.requestEachHost<{ models: OllamaRunningModel[] }>('/api/ps', 'list running models');
+    return results.flatMap(data => data.models || []);
+  }
+
+  /**
+   * Load a model into memory without generating anything
+   */
+  async loadModel(modelName: string, keepAlive?: OllamaKeepAlive, signal?: AbortSignal): Promise<void> {
+    await this.setResidency(modelName, keepAlive, signal);
+  }
+
+  /**
+   * Evict a model from memory right away
+   */
+  async unloadModel(modelName: string): Promise<void> {
+    await this.setResidency(modelName, 0);
   }
 
   /**
@@ -158,13 +404,13 @@ export class OllamaClient {
   /**
    * Generate text completion
    */
-  async generate(request: OllamaGenerateRequest): Promise<OllamaGenerateResponse> {
+  async generate(request: OllamaGenerateRequest, signal?: AbortSignal): Promise<OllamaGenerateResponse> {
     await this.ensureHealthy();
     
     const response = await this.request('POST', '/api/generate', {
       ...request,
       stream: false
-    });
+    }, signal);
     
     const data = await response.json();
     
@@ -179,75 +425,189 @@ export class OllamaClient {
   /**
    * Generate streaming text completion
    */
-  async* generateStream(request: OllamaGenerateRequest): AsyncGenerator<OllamaGenerateResponse> {
+  async* generateStream(request: OllamaGenerateRequest, signal?: AbortSignal): AsyncGenerator<OllamaGenerateResponse> {
     await this.ensureHealthy();
     
     const response = await this.request('POST', '/api/generate', {
       ...request,
       stream: true
-    });
+    }, signal);
     
     if (!response.ok) {
       const error = await response.json();
       throw new Error(`Streaming generation failed: ${(error as OllamaError).error}`);
     }
     
-    if (!response.body) {
-      throw new Error('No response body for streaming request');
+    yield* this.readStream<OllamaGenerateResponse>(response);
+  }
+
+  /**
+   * Chat completion over a structured message history
+   */
+  async chat(request: OllamaChatRequest, signal?: AbortSignal): Promise<OllamaChatResponse> {
+    await this.ensureHealthy();
+    
+    const response = await this.request('POST', '/api/chat', {
+      ...request,
+      stream: false
+    }, signal);
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      const errorData = data as OllamaError;
+      throw new Error(`Chat failed: ${errorData.error}`);
     }
     
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+    return data as OllamaChatResponse;
+  }
+
+  /**
+   * Streaming chat completion over a structured message history
+   */
+  async* chatStream(request: OllamaChatRequest, signal?: AbortSignal): AsyncGenerator<OllamaChatResponse> {
+    await this.ensureHealthy();
     
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const chunk = JSON.parse(line) as OllamaGenerateResponse;
-              yield chunk;
-              
-              if (chunk.done) {
-                return;
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse streaming response chunk:', line);
-            }
-          }
-        }
+    const response = await this.request('POST', '/api/chat', {
+      ...request,
+      stream: true
+    }, signal);
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(`Streaming chat failed: ${(error as OllamaError).error}`);
+    }
+    
+    yield* this.readStream<OllamaChatResponse>(response);
+  }
+
+  /**
+   * Embed text with an embedding model
+   *
+   * Large inputs are split into batches so a whole codebase doesn't go out
+   * in one request; the vectors come back in input order either way.
+   */
+  async embed(request: OllamaEmbedRequest, signal?: AbortSignal): Promise<OllamaEmbedResponse> {
+    await this.ensureHealthy();
+
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    const embeddings: number[][] = [];
+    let promptEvalCount = 0;
+    let totalDuration = 0;
+
+    for (let start = 0; start < inputs.length; start += this.embedBatchSize) {
+      const batch = inputs.slice(start, start + this.embedBatchSize);
+      const response = await this.request('POST', '/api/embed', {
+        truncate: true,
+        ...request,
+        input: batch
+      }, signal);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(`Failed to embed with ${request.model}: ${(error as OllamaError).error}`);
       }
-    } finally {
-      reader.releaseLock();
+
+      const data = await response.json() as OllamaEmbedResponse;
+      if (!data.embeddings || data.embeddings.length !== batch.length) {
+        throw new Error(`Embedding model ${request.model} returned ${data.embeddings?.length ?? 0} vectors for ${batch.length} inputs`);
+      }
+
+      embeddings.push(...data.embeddings);
+      promptEvalCount += data.prompt_eval_count || 0;
+      totalDuration += data.total_duration || 0;
     }
+
+    return {
+      model: request.model,
+      embeddings,
+      prompt_eval_count: promptEvalCount,
+      total_duration: totalDuration
+    };
   }
 
   /**
    * Pull/download a model from Ollama registry
    */
-  async pullModel(modelName: string): Promise<void> {
+  async pullModel(modelName: string, signal?: AbortSignal): Promise<void> {
+    for await (const _progress of this.pullModelStream(modelName, signal)) {
+      // Wait for completion
+    }
+  }
+
+  /**
+   * Pull a model, yielding progress events until Ollama reports success
+   */
+  async* pullModelStream(modelName: string, signal?: AbortSignal): AsyncGenerator<OllamaPullProgress> {
     await this.ensureHealthy();
     
     const response = await this.request('POST', '/api/pull', {
-      name: modelName
-    });
+      name: modelName,
+      stream: true
+    }, signal);
     
     if (!response.ok) {
       const error = await response.json();
       throw new Error(`Failed to pull model: ${(error as OllamaError).error}`);
     }
     
-    // Note: In a full implementation, this should handle streaming progress
-    // For now, we'll wait for completion
-    await response.json();
+    const progressStream = this.readStream<OllamaPullProgress | OllamaError>(
+      response,
+      chunk => 'status' in chunk && chunk.status === 'success'
+    );
+
+    for await (const chunk of progressStream) {
+      // Failures after the download starts arrive as an error line
+      if ('error' in chunk) {
+        throw new Error(`Failed to pull model: ${chunk.error}`);
+      }
+      yield chunk;
+    }
+    this.invalidateInventory();
+  }
+
+  /**
+   * Create a model, yielding progress events until Ollama reports success
+   *
+   * Events are status-only ("using existing layer", "writing manifest").
+   */
+  async* createModelStream(request: OllamaCreateRequest, signal?: AbortSignal): AsyncGenerator<OllamaPullProgress> {
+    await this.ensureHealthy();
+
+    const response = await this.request('POST', '/api/create', { ...request, stream: true }, signal);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(`Failed to create model: ${(error as OllamaError).error}`);
+    }
+
+    const progressStream = this.readStream<OllamaPullProgress | OllamaError>(
+      response,
+      chunk => 'status' in chunk && chunk.status === 'success'
+    );
+
+    for await (const chunk of progressStream) {
+      if ('error' in chunk) {
+        throw new Error(`Failed to create model: ${chunk.error}`);
+      }
+      yield chunk;
+    }
+    this.invalidateInventory();
+  }
+
+  /**
+   * Copy a model under another name - an alias sharing the same layers
+   */
+  async copyModel(source: string, destination: string): Promise<void> {
+    await this.ensureHealthy();
+
+    const response = await this.request('POST', '/api/copy', { source, destination });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(`Failed to copy model: ${(error as OllamaError).error}`);
+    }
+    this.invalidateInventory();
   }
 
   /**
@@ -264,6 +624,27 @@ export class OllamaClient {
       const error = await response.json();
       throw new Error(`Failed to delete model: ${(error as OllamaError).error}`);
     }
+    this.invalidateInventory();
+  }
+
+  /**
+   * A generate request without a prompt only loads or unloads the model
+   */
+  private async setResidency(modelName: string, keepAlive?: OllamaKeepAlive, signal?: AbortSignal): Promise<void> {
+    await this.ensureHealthy();
+    
+    const response = await this.request('POST', '/api/generate', {
+      model: modelName,
+      ...(keepAlive !== undefined ? { keep_alive: keepAlive } : {})
+    }, signal);
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(`Failed to ${keepAlive === 0 ? 'unload' : 'load'} model: ${(error as OllamaError).error}`);
+    }
+    
+    await response.json();
+    this.invalidateInventory();
   }
 
   /**
@@ -272,48 +653,330 @@ export class OllamaClient {
   private async ensureHealthy(): Promise<void> {
     if (!await this.checkHealth()) {
       throw new Error(
-        'Ollama service is not available. Please ensure Ollama is running on ' + this.host
+        'Ollama service is not available. Please ensure Ollama is running on ' + this.hosts.map(host => host.url).join(' or ')
       );
     }
   }
 
+  /**
+   * Ping one host, unless it was checked recently and `force` isn't set
+   */
+  private async checkHostHealth(host: HostState, force: boolean): Promise<boolean> {
+    const now = Date.now();
+    if (!force && now - host.lastHealthCheck < this.healthCheckInterval) {
+      return host.healthy;
+    }
+
+    try {
+      const response = await this.fetch(`${host.url}/`, {
+        method: 'GET',
+        signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT)
+      });
+      host.healthy = response.ok;
+    } catch {
+      host.healthy = false;
+    }
+    host.lastHealthCheck = now;
+    return host.healthy;
+  }
+
+  /**
+   * GET an endpoint from every healthy host, in priority order
+   *
+   * Hosts that can't be reached are marked down and left out; it's an
+   * error only if none answer.
+   */
+  private async requestEachHost<T>(endpoint: string, action: string): Promise<T[]> {
+    const results: T[] = [];
+    let lastError: unknown;
+
+    for (const host of this.hosts.filter(host => host.healthy)) {
+      try {
+        const response = await this.send(host, 'GET', endpoint);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error((data as OllamaError).error);
+        }
+        results.push(data as T);
+      } catch (error) {
+        this.markDown(host);
+        lastError = error;
+      }
+    }
+
+    if (results.length === 0) {
+      throw new Error(`Failed to ${action}: ${getErrorMessage(lastError)}`);
+    }
+    return results;
+  }
+
+  /**
+   * Hosts to try for a request, best first
+   *
+   * Healthy before down, then hosts that have the model installed, then
+   * ones that already have it loaded, then by priority. Hosts that look
+   * down stay at the end as a last resort.
+   */
+  private async selectHosts(model?: string): Promise<HostState[]> {
+    if (this.hosts.length === 1) {
+      return this.hosts;
+    }
+
+    if (model) {
+      await Promise.all(this.hosts.filter(host => host.healthy).map(host => this.refreshInventory(host)));
+    }
+
+    const rank = (host: HostState): number[] => [
+      host.healthy ? 0 : 1,
+      model && hasModel(host.models, model) ? 0 : 1,
+      model && hasModel(host.loadedModels, model) ? 0 : 1,
+      host.priority
+    ];
+
+    return [...this.hosts].sort((a, b) => {
+      const rankA = rank(a);
+      const rankB = rank(b);
+      const index = rankA.findIndex((value, i) => value !== rankB[i]);
+      return index === -1 ? 0 : rankA[index] - rankB[index];
+    });
+  }
+
+  /**
+   * Refresh which models a host has installed and loaded, if it's been a while
+   */
+  private async refreshInventory(host: HostState): Promise<void> {
+    const now = Date.now();
+    if (now - host.lastInventoryCheck < this.healthCheckInterval) {
+      return;
+    }
+    host.lastInventoryCheck = now;
+
+    try {
+      const [tags, running] = await Promise.all([
+        this.send(host, 'GET', '/api/tags').then(response => response.json()),
+        this.send(host, 'GET', '/api/ps').then(response => response.json())
+      ]);
+      host.models = ((tags as { models?: OllamaModel[] }).models || []).map(model => model.name);
+      host.loadedModels = ((running as { models?: OllamaRunningModel[] }).models || []).map(model => model.name);
+    } catch {
+      // Routing falls back to priority; the request itself will find out if the host is gone
+    }
+  }
+
+  /**
+   * Forget every host's model lists after pulls, deletes, loads and unloads
+   */
+  private invalidateInventory(): void {
+    for (const host of this.hosts) {
+      host.lastInventoryCheck = 0;
+    }
+  }
+
+  private markDown(host: HostState): void {
+    host.healthy = false;
+    host.lastHealthCheck = Date.now();
+  }
+
+  /**
+   * Read a newline-delimited JSON stream until the final chunk
+   * (the one with `done` set, unless `isFinal` says otherwise)
+   *
+   * A pull or a long reply can stream for much longer than the request
+   * timeout, so the timeout only applies to gaps between chunks.
+   */
+  private async* readStream<T extends object>(
+    response: Response,
+    isFinal: (chunk: T) => boolean = chunk => (chunk as { done?: boolean }).done === true
+  ): AsyncGenerator<T> {
+    if (!response.body) {
+      throw new Error('No response body for streaming request');
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const readChunk = () => new Promise<ReadableStreamReadResult<Uint8Array>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new OllamaTimeoutError(`Ollama sent nothing for ${this.timeout / 1000}s`);
+        reader.cancel(error).catch(() => {});
+        reject(error);
+      }, this.timeout);
+      reader.read().then(resolve, reject).finally(() => clearTimeout(timer));
+    });
+    
+    try {
+      while (true) {
+        const { done, value } = await readChunk();
+        
+        if (done) break;
+        
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        
+        for (const line of lines) {
+          if (line.trim()) {
+            try {
+              const chunk = JSON.parse(line) as T;
+              yield chunk;
+              
+              if (isFinal(chunk)) {
+                return;
+              }
+            } catch (parseError) {
+              console.warn('Failed to parse streaming response chunk:', line);
+            }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   /**
    * Make HTTP request to Ollama API with retry logic
+   *
+   * Requests that name a model are routed to the best host for it; when a
+   * host can't be reached it's marked down and the next one is tried.
+   * Anything else - a timeout on a busy host included - goes straight to
+   * the caller, so a slow generation is never sent again elsewhere.
+   * `signal` cancels the request (and any stream read from it); a
+   * cancelled request is never retried.
    */
   private async request(
     method: string, 
     endpoint: string, 
-    body?: unknown
+    body?: unknown,
+    signal?: AbortSignal
   ): Promise<Response> {
-    const url = `${this.host}${endpoint}`;
+    // Creating or copying a model has to happen where the original is
+    const fields = (body || {}) as { model?: string; name?: string; from?: string; source?: string };
+    const model = fields.from || fields.source || fields.model || fields.name;
+    let lastError: unknown;
     
     for (let attempt = 0; attempt < this.retries; attempt++) {
-      try {
-        const response = await fetch(url, {
-          method,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: body ? JSON.stringify(body) : undefined,
-          signal: AbortSignal.timeout(this.timeout),
-        });
-        
-        return response;
-      } catch (error) {
-        if (attempt === this.retries - 1) {
-          throw new Error(
-            `Ollama request failed after ${this.retries} attempts: ${getErrorMessage(error)}`
-          );
+      for (const host of await this.selectHosts(model)) {
+        try {
+          const response = await this.send(host, method, endpoint, body, signal);
+          if (endpoint === '/api/chat' || endpoint === '/api/generate') {
+            this.activeHost = host;
+          }
+          return response;
+        } catch (error) {
+          if (signal?.aborted) {
+            throw new OllamaAbortError();
+          }
+          if (!isConnectionError(error)) {
+            throw error;
+          }
+          this.markDown(host);
+          lastError = error;
         }
-        
+      }
+
+      if (attempt < this.retries - 1) {
         // Exponential backoff
         const delay = Math.pow(2, attempt) * 1000;
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
     
-    throw new Error('Request failed unexpectedly');
+    throw new Error(
+      `Ollama request failed after ${this.retries} attempts: ${getErrorMessage(lastError)}`
+    );
   }
+
+  /**
+   * One HTTP request to one host
+   *
+   * The timeout covers waiting for the response headers only; streamed
+   * bodies are timed chunk by chunk in readStream.
+   */
+  private async send(
+    host: HostState,
+    method: string,
+    endpoint: string,
+    body?: unknown,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const timeout = new AbortController();
+    const timer = setTimeout(() => {
+      timeout.abort(new OllamaTimeoutError(`${host.url} didn't respond within ${this.timeout / 1000}s`));
+    }, this.timeout);
+
+    try {
+      return await this.fetch(`${host.url}${endpoint}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
+      });
+    } catch (error) {
+      if (timeout.signal.aborted && !signal?.aborted) {
+        throw timeout.signal.reason;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Whether a model list includes a model - "llama3" means "llama3:latest"
+ */
+function hasModel(models: string[] | null, model: string): boolean {
+  const withTag = (name: string) => name.includes(':') ? name : `${name}:latest`;
+  return !!models && models.some(name => withTag(name) === withTag(model));
+}
+
+/** Errors that mean the host couldn't be reached at all */
+const CONNECTION_ERROR_CODES = [
+  'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET'
+];
+
+/**
+ * Whether a request failed before the host answered - fetch rejects with
+ * a TypeError carrying the socket error as its cause
+ */
+function isConnectionError(error: unknown): boolean {
+  const cause = (error as { cause?: { code?: string } })?.cause;
+  if (cause?.code) {
+    return CONNECTION_ERROR_CODES.includes(cause.code);
+  }
+  return error instanceof TypeError;
+}
+
+/**
+ * Thrown when a caller cancels a request through its AbortSignal
+ */
+export class OllamaAbortError extends Error {
+  constructor(message: string = 'Request cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown when a host takes longer than the configured timeout to answer
+ */
+export class OllamaTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Whether an error came from a cancelled request rather than a failure
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
 }
 
 /**
@@ -24,13 +24,27 @@ import {
   Tool,
 } from '../types.js';
 
-import { ContentGenerator, getErrorMessage } from '../interfaces.js';
-import { OllamaClient, OllamaGenerateRequest, OllamaGenerateResponse } from './client.js';
-import { OllamaModelManager, LocalModel } from './models.js';
+import { ContentGenerator, getErrorMessage, BackendConfig, LlmBackend } from '../interfaces.js';
+import { OllamaClient, OllamaChatRequest, OllamaChatResponse } from './client.js';
+import { createLlmBackend } from '../api/backends.js';
+import {
+  toOllamaChatMessages,
+  toOllamaTools,
+  fromOllamaToolCalls,
+  isToolsUnsupportedError,
+} from './messages.js';
+import { applyContextWindow } from './contextWindow.js';
+import { defaultTokenCalibrator } from './tokenCalibration.js';
+import { parseToolCallsWithRepair } from '../utils/toolCallParser.js';
+import { OllamaModelManager, LocalModel, DEFAULT_EMBEDDING_MODEL } from './models.js';
 
 export interface OllamaContentGeneratorConfig {
   model: string;
+  /** Model for embedContent - chat models make poor embeddings */
+  embeddingModel?: string;
   ollamaHost?: string;
+  /** Use another kind of server instead of Ollama at `ollamaHost` */
+  backend?: BackendConfig;
   temperature?: number;
   maxTokens?: number;
 }
@@ -39,17 +53,19 @@ export interface OllamaContentGeneratorConfig {
  * Content generator implementation using Ollama API
  */
 export class OllamaContentGenerator implements ContentGenerator {
-  private client: OllamaClient;
-  private modelManager: OllamaModelManager;
+  private client: LlmBackend;
+  /** Only Ollama can describe its models */
+  private modelManager: OllamaModelManager | null;
   private config: OllamaContentGeneratorConfig;
   private currentModel: LocalModel | null = null;
+  private nativeToolsSupported: boolean = true;
 
   constructor(config: OllamaContentGeneratorConfig) {
     this.config = config;
-    this.client = new OllamaClient({
-      host: config.ollamaHost || 'http://localhost:11434'
-    });
-    this.modelManager = new OllamaModelManager(this.client);
+    this.client = config.backend
+      ? createLlmBackend(config.backend)
+      : new OllamaClient({ host: config.ollamaHost || 'http://localhost:11434' });
+    this.modelManager = this.client instanceof OllamaClient ? new OllamaModelManager(this.client) : null;
   }
 
   /**
@@ -62,16 +78,16 @@ export class OllamaContentGenerator implements ContentGenerator {
     try {
       await this.ensureModelLoaded();
       
-      const ollamaRequest = await this.transformToOllamaRequest(request);
-      const ollamaResponse = await this.client.generate(ollamaRequest);
+      const ollamaResponse = await this.chatWithToolFallback(request);
       
       // Update model usage statistics
       if (ollamaResponse.total_duration) {
         const responseTimeMs = ollamaResponse.total_duration / 1000000; // Convert nanoseconds to ms
-        await this.modelManager.updateModelUsage(this.config.model, responseTimeMs);
+        await this.modelManager?.updateModelUsage(this.config.model, responseTimeMs);
       }
       
-      return this.transformFromOllamaResponse(ollamaResponse, request.tools);
+      const textCalls = await this.extractTextToolCalls(request, ollamaResponse);
+      return this.transformFromOllamaResponse(ollamaResponse, textCalls);
       
     } catch (error) {
       throw new Error(`Ollama content generation failed: ${getErrorMessage(error)}`);
@@ -89,7 +105,7 @@ export class OllamaContentGenerator implements ContentGenerator {
       await this.ensureModelLoaded();
       
       const ollamaRequest = await this.transformToOllamaRequest(request);
-      const ollamaStream = this.client.generateStream(ollamaRequest);
+      const ollamaStream = this.client.chatStream(ollamaRequest);
       
       return this.transformStreamResponse(ollamaStream, request.tools);
       
@@ -102,10 +118,10 @@ export class OllamaContentGenerator implements ContentGenerator {
    * Count tokens (estimated for Ollama models)
    */
   async countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
-    // Ollama doesn't provide direct token counting, so we estimate
-    // Based on average of ~3.5 characters per token for English text
+    // Ollama doesn't provide direct token counting, so we estimate using
+    // the chars-per-token ratio calibrated from this model's real counts
     const text = this.extractTextFromContents(request.contents);
-    const estimatedTokens = Math.ceil(text.length / 3.5);
+    const estimatedTokens = defaultTokenCalibrator.estimate(this.config.model, text);
     
     return {
       totalTokens: estimatedTokens,
@@ -113,48 +129,116 @@ export class OllamaContentGenerator implements ContentGenerator {
   }
 
   /**
-   * Embed content (not supported by most Ollama models)
+   * Embed content with the configured embedding model
    */
   async embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
-    throw new Error('Embedding is not supported by most Ollama models. Consider using a dedicated embedding service.');
+    const [embedding] = await this.embedContents([request.content], request.model);
+    return { embedding };
+  }
+
+  /**
+   * Embed many contents at once - the client batches the requests
+   */
+  async embedContents(contents: Content[], model: string = this.getEmbeddingModel()): Promise<number[][]> {
+    try {
+      const response = await this.client.embed({
+        model,
+        input: contents.map(content => this.extractTextFromContents([content]).trim())
+      });
+      return response.embeddings;
+    } catch (error) {
+      throw new Error(`Ollama embedding failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Get the model used for embeddings
+   */
+  getEmbeddingModel(): string {
+    return this.config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  }
+
+  /**
+   * Send a chat request, retrying without native tools if the model rejects them
+   */
+  private async chatWithToolFallback(request: GenerateContentParameters): Promise<OllamaChatResponse> {
+    try {
+      return await this.sendChat(await this.transformToOllamaRequest(request));
+    } catch (error) {
+      if (!this.nativeToolsSupported || !request.tools || !isToolsUnsupportedError(error)) {
+        throw error;
+      }
+      this.nativeToolsSupported = false;
+      return await this.sendChat(await this.transformToOllamaRequest(request));
+    }
+  }
+
+  /**
+   * Send a chat request and learn the model's token ratio from the reply
+   */
+  private async sendChat(ollamaRequest: OllamaChatRequest): Promise<OllamaChatResponse> {
+    const response = await this.client.chat(ollamaRequest);
+    defaultTokenCalibrator.recordChat(ollamaRequest, response);
+    return response;
   }
 
   /**
    * Transform Gemini request to Ollama format
    */
-  private async transformToOllamaRequest(request: GenerateContentParameters): Promise<OllamaGenerateRequest> {
-    const prompt = this.buildPromptFromContents(request.contents);
+  private async transformToOllamaRequest(request: GenerateContentParameters): Promise<OllamaChatRequest> {
+    const messages = toOllamaChatMessages(request.contents, request.systemInstruction, {
+      nativeTools: this.nativeToolsSupported
+    });
+    const declarations = (request.tools || []).flatMap(tool => tool.functionDeclarations);
     
-    return {
+    const ollamaRequest: OllamaChatRequest = {
       model: this.config.model,
-      prompt,
+      messages,
+      ...(this.nativeToolsSupported && declarations.length > 0 ? { tools: toOllamaTools(declarations) } : {}),
       stream: false,
       options: {
         temperature: request.generationConfig?.temperature || this.config.temperature || 0.7,
-        top_p: request.generationConfig?.topP || 0.9,
-        top_k: request.generationConfig?.topK || 40,
+        top_p: request.generationConfig?.topP,
+        top_k: request.generationConfig?.topK,
         num_predict: request.generationConfig?.maxOutputTokens || this.config.maxTokens || -1,
       }
     };
+
+    // Size num_ctx to the prompt so Ollama doesn't truncate it
+    const contextLimit = this.currentModel?.capabilitiesSource === 'ollama'
+      ? this.currentModel.capabilities.maxContextLength
+      : undefined;
+    applyContextWindow(ollamaRequest, contextLimit, defaultTokenCalibrator.getCharsPerToken(this.config.model));
+
+    return ollamaRequest;
   }
 
   /**
    * Transform Ollama response to Gemini format
    */
   private transformFromOllamaResponse(
-    ollamaResponse: OllamaGenerateResponse,
-    tools?: Tool[]
+    ollamaResponse: OllamaChatResponse,
+    textCalls: FunctionCall[] = []
   ): GenerateContentResponse {
     const parts: Part[] = [];
+    const text = ollamaResponse.message.content;
+    const nativeCalls = fromOllamaToolCalls(ollamaResponse.message.tool_calls);
     
-    // Check if response contains tool calls (basic pattern matching)
-    if (tools && this.containsToolCall(ollamaResponse.response)) {
-      const toolCall = this.extractToolCall(ollamaResponse.response);
-      if (toolCall) {
-        parts.push({ functionCall: toolCall });
+    if (nativeCalls.length > 0) {
+      // Structured tool_calls from models with native tool support
+      if (text) {
+        parts.push({ text });
+      }
+      for (const call of nativeCalls) {
+        parts.push({ functionCall: call });
+      }
+    } else if (textCalls.length > 0) {
+      // Tool calls written out as text by models without native support
+      for (const call of textCalls) {
+        parts.push({ functionCall: call });
       }
     } else {
-      parts.push({ text: ollamaResponse.response });
+      parts.push({ text });
     }
 
     return {
@@ -178,15 +262,15 @@ export class OllamaContentGenerator implements ContentGenerator {
    * Transform streaming Ollama responses to Gemini format
    */
   private async* transformStreamResponse(
-    ollamaStream: AsyncGenerator<OllamaGenerateResponse>,
+    ollamaStream: AsyncGenerator<OllamaChatResponse>,
     tools?: Tool[]
   ): AsyncGenerator<GenerateContentResponse> {
     let fullResponse = '';
     
     for await (const chunk of ollamaStream) {
-      fullResponse += chunk.response;
+      fullResponse += chunk.message.content;
       
-      const parts: Part[] = [{ text: chunk.response }];
+      const parts: Part[] = [{ text: chunk.message.content }];
       
       yield {
         candidates: [{
@@ -206,38 +290,6 @@ export class OllamaContentGenerator implements ContentGenerator {
     }
   }
 
-  /**
-   * Build prompt string from Gemini content array
-   */
-  private buildPromptFromContents(contents: Content[]): string {
-    let prompt = '';
-    
-    for (const content of contents) {
-      if (content.role === 'user') {
-        prompt += 'User: ';
-      } else if (content.role === 'model') {
-        prompt += 'Assistant: ';
-      }
-      
-      for (const part of content.parts) {
-        if (part.text) {
-          prompt += part.text;
-        } else if (part.functionCall) {
-          // Format function calls for Ollama
-          prompt += `[Function Call: ${part.functionCall.name}(${JSON.stringify(part.functionCall.args)})]`;
-        } else if (part.functionResponse) {
-          // Format function responses for Ollama
-          prompt += `[Function Response: ${JSON.stringify(part.functionResponse.response)}]`;
-        }
-      }
-      
-      prompt += '\n\n';
-    }
-    
-    prompt += 'Assistant: ';
-    return prompt;
-  }
-
   /**
    * Extract text from content array for token counting
    */
@@ -256,67 +308,44 @@ export class OllamaContentGenerator implements ContentGenerator {
   }
 
   /**
-   * Check if response contains a tool call (basic pattern matching)
+   * Parse tool calls the model wrote as text, with one repair round-trip for broken JSON
    */
-  private containsToolCall(response: string): boolean {
-    // Look for JSON-like structures that might be tool calls
-    return /\{\s*"name"\s*:\s*"[^"]+"\s*,\s*"args"\s*:\s*\{/.test(response) ||
-           /\{\s*"function"\s*:\s*"[^"]+"\s*,\s*"parameters"\s*:\s*\{/.test(response);
-  }
+  private async extractTextToolCalls(
+    request: GenerateContentParameters,
+    ollamaResponse: OllamaChatResponse
+  ): Promise<FunctionCall[]> {
+    const declarations = (request.tools || []).flatMap(tool => tool.functionDeclarations);
+    const text = ollamaResponse.message.content;
 
-  /**
-   * Extract tool call from response (robust extraction with balanced brace matching)
-   */
-  private extractToolCall(response: string): FunctionCall | null {
-    try {
-      // More robust JSON extraction - find balanced braces
-      let braceCount = 0;
-      let start = -1;
-      let end = -1;
-      
-      for (let i = 0; i < response.length; i++) {
-        if (response[i] === '{') {
-          if (start === -1) start = i;
-          braceCount++;
-        } else if (response[i] === '}') {
-          braceCount--;
-          if (braceCount === 0 && start !== -1) {
-            end = i;
-            break;
-          }
-        }
-      }
-      
-      if (start !== -1 && end !== -1) {
-        const jsonStr = response.substring(start, end + 1);
-        const parsed = JSON.parse(jsonStr);
-        
-        if (parsed.name && parsed.args) {
-          return {
-            name: parsed.name,
-            args: parsed.args
-          };
-        }
-        
-        if (parsed.function && parsed.parameters) {
-          return {
-            name: parsed.function,
-            args: parsed.parameters
-          };
-        }
-      }
-    } catch (error) {
-      // Ignore parsing errors - tool call extraction is optional
+    if (declarations.length === 0 || ollamaResponse.message.tool_calls?.length) {
+      return [];
     }
-    
-    return null;
+
+    const result = await parseToolCallsWithRepair(
+      text,
+      async (repairPrompt) => {
+        const ollamaRequest = await this.transformToOllamaRequest(request);
+        const repair = await this.client.chat({
+          ...ollamaRequest,
+          messages: [
+            ...ollamaRequest.messages,
+            { role: 'assistant', content: text },
+            { role: 'user', content: repairPrompt }
+          ]
+        });
+        return repair.message.content;
+      },
+      { knownTools: declarations.map(declaration => declaration.name) }
+    );
+
+    return result.calls;
   }
 
   /**
    * Ensure the selected model is loaded and available
    */
   private async ensureModelLoaded(): Promise<void> {
-    if (!this.currentModel) {
+    if (this.modelManager && !this.currentModel) {
       this.currentModel = await this.modelManager.getModel(this.config.model);
       
       if (!this.currentModel) {
@@ -0,0 +1,142 @@
+/**
+ * Context window sizing
+ *
+ * Ollama loads models with a small default context and silently drops the
+ * oldest tokens when a prompt doesn't fit. Every request therefore carries
+ * a num_ctx sized from the estimated prompt plus room for the reply,
+ * capped at what the model was trained for.
+ */
+
+import { OllamaChatMessage, OllamaTool } from './client.js';
+
+/** Rough average for English text and code */
+export const CHARS_PER_TOKEN = 3.5;
+
+/** Warn once the conversation fills this much of the model's window */
+export const CONTEXT_WARNING_RATIO = 0.9;
+
+/**
+ * num_ctx is rounded up to this step - Ollama reloads the model whenever
+ * num_ctx changes, so small prompt growth shouldn't change it
+ */
+const NUM_CTX_STEP = 2048;
+const MIN_NUM_CTX = 2048;
+
+/** Room left for the reply when the request doesn't limit num_predict */
+const DEFAULT_REPLY_TOKENS = 1024;
+
+/** Chat template tokens around each message (role markers, separators) */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextWindowPlan {
+  /** Value to send as options.num_ctx */
+  numCtx: number;
+  /** Estimated prompt size, tools included */
+  promptTokens: number;
+  /** Prompt plus room for the reply */
+  requiredTokens: number;
+  /** The model's real maximum, when known */
+  maxContextLength?: number;
+  /** The prompt and reply cannot fit even at the maximum */
+  overflow: boolean;
+  /** Past CONTEXT_WARNING_RATIO of the maximum */
+  nearlyFull: boolean;
+}
+
+export interface ContextWindowOptions {
+  /** The model's trained context length */
+  maxContextLength?: number;
+  /** num_predict for the request; -1 or missing means unbounded */
+  maxOutputTokens?: number;
+  /** Explicit num_ctx from the caller - still capped at the maximum */
+  requestedNumCtx?: number;
+}
+
+/**
+ * Estimate tokens for a piece of text
+ */
+export function estimateTokens(text: string, charsPerToken: number = CHARS_PER_TOKEN): number {
+  return Math.ceil(text.length / charsPerToken);
+}
+
+/**
+ * Estimate the prompt size of a chat request
+ */
+export function estimateChatTokens(
+  messages: OllamaChatMessage[],
+  tools: OllamaTool[] = [],
+  charsPerToken: number = CHARS_PER_TOKEN
+): number {
+  let tokens = 0;
+
+  for (const message of messages) {
+    tokens += MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, charsPerToken);
+    if (message.tool_calls) {
+      tokens += estimateTokens(JSON.stringify(message.tool_calls), charsPerToken);
+    }
+  }
+
+  if (tools.length > 0) {
+    tokens += estimateTokens(JSON.stringify(tools), charsPerToken);
+  }
+
+  return tokens;
+}
+
+/**
+ * Work out num_ctx for a prompt of the given size
+ */
+export function planContextWindow(promptTokens: number, options: ContextWindowOptions = {}): ContextWindowPlan {
+  const replyTokens = options.maxOutputTokens && options.maxOutputTokens > 0
+    ? options.maxOutputTokens
+    : DEFAULT_REPLY_TOKENS;
+  const requiredTokens = promptTokens + replyTokens;
+  const max = options.maxContextLength;
+
+  let numCtx = options.requestedNumCtx
+    || Math.max(MIN_NUM_CTX, Math.ceil(requiredTokens / NUM_CTX_STEP) * NUM_CTX_STEP);
+  if (max) {
+    numCtx = Math.min(numCtx, max);
+  }
+
+  return {
+    numCtx,
+    promptTokens,
+    requiredTokens,
+    maxContextLength: max,
+    overflow: requiredTokens > numCtx,
+    nearlyFull: !!max && requiredTokens > max * CONTEXT_WARNING_RATIO,
+  };
+}
+
+/**
+ * Size a chat request's context window in place
+ */
+export function applyContextWindow(
+  request: { messages: OllamaChatMessage[]; tools?: OllamaTool[]; options?: { num_ctx?: number; num_predict?: number } },
+  maxContextLength?: number,
+  charsPerToken: number = CHARS_PER_TOKEN
+): ContextWindowPlan {
+  const plan = planContextWindow(estimateChatTokens(request.messages, request.tools, charsPerToken), {
+    maxContextLength,
+    maxOutputTokens: request.options?.num_predict,
+    requestedNumCtx: request.options?.num_ctx,
+  });
+
+  request.options = { ...request.options, num_ctx: plan.numCtx };
+  return plan;
+}
+
+/**
+ * User-facing warning for a plan, if one is warranted
+ */
+export function describeContextWarning(plan: ContextWindowPlan, model: string): string | undefined {
+  if (plan.overflow) {
+    return `Conversation (~${plan.requiredTokens} tokens with reply) exceeds the ${plan.numCtx}-token context of ${model} - the oldest messages will be cut off. Use /c to clear the session.`;
+  }
+  if (plan.nearlyFull && plan.maxContextLength) {
+    const percent = Math.round((plan.requiredTokens / plan.maxContextLength) * 100);
+    return `Conversation is using ~${percent}% of the ${plan.maxContextLength}-token context of ${model} and will soon be truncated.`;
+  }
+  return undefined;
+}
\ No newline at end of file
@@ -15,18 +15,76 @@
 export {
   OllamaClient,
   defaultOllamaClient,
+  OllamaAbortError,
+  isAbortError,
   type OllamaModel,
   type OllamaModelInfo,
   type OllamaGenerateRequest,
   type OllamaGenerateResponse,
+  type OllamaChatMessage,
+  type OllamaChatRequest,
+  type OllamaChatResponse,
+  type OllamaToolCall,
+  type OllamaTool,
   type OllamaError,
+  type OllamaPullProgress,
+  type OllamaCreateRequest,
+  type OllamaKeepAlive,
+  type OllamaRunningModel,
+  type OllamaEmbedRequest,
+  type OllamaEmbedResponse,
   type OllamaClientConfig,
+  type OllamaFetch,
 } from './client.js';
 
+// Recorded and scripted traffic
+export {
+  createRecordingFetch,
+  createReplayFetch,
+  type CassetteEntry,
+} from './cassette.js';
+export {
+  createScriptedFetch,
+  SCRIPTED_MODEL,
+  type ScriptedReply,
+} from './scripted.js';
+
+// Derived models
+export {
+  renderModelfile,
+  toCreateRequest,
+  parseModelfileParameters,
+  type ModelfileParameters,
+  type ModelfileSpec,
+} from './modelfile.js';
+
+// Chat message mapping
+export {
+  toOllamaChatMessages,
+  toOllamaTools,
+  fromOllamaToolCalls,
+  isToolsUnsupportedError,
+  type ChatMessageOptions,
+} from './messages.js';
+
+// Tool-call format adapters
+export {
+  getToolCallAdapter,
+  registerToolCallAdapter,
+  defaultToolCallAdapter,
+  hermesToolCallAdapter,
+  llama3ToolCallAdapter,
+  mistralToolCallAdapter,
+  deepseekToolCallAdapter,
+  type ToolCallAdapter,
+  type ToolCallAdapterModel,
+} from './toolCallAdapters.js';
+
 // Model management
 export {
   OllamaModelManager,
   defaultModelManager,
+  DEFAULT_EMBEDDING_MODEL,
   type ModelCapabilities,
   type LocalModel,
   type ModelRecommendation,
@@ -35,6 +93,33 @@ export {
   PerformanceProfile,
 } from './models.js';
 
+// Capability discovery
+export {
+  discoverCapabilities,
+  ModelCapabilityCache,
+  type DiscoveredCapabilities,
+} from './capabilities.js';
+
+// Context window sizing
+export {
+  estimateTokens,
+  estimateChatTokens,
+  planContextWindow,
+  applyContextWindow,
+  describeContextWarning,
+  CHARS_PER_TOKEN,
+  MESSAGE_OVERHEAD_TOKENS,
+  type ContextWindowPlan,
+  type ContextWindowOptions,
+} from './contextWindow.js';
+
+// Token calibration
+export {
+  TokenCalibrator,
+  defaultTokenCalibrator,
+  type TokenCalibration,
+} from './tokenCalibration.js';
+
 // Authentication and service management
 export {
   OllamaAuthManager,
@@ -0,0 +1,183 @@
+/**
+ * Content → Ollama chat message mapping
+ *
+ * Turns our Gemini-shaped Content[] history into the messages array that
+ * /api/chat expects, so each model's own chat template decides how turns,
+ * tool calls and tool results are rendered. Also converts tool declarations
+ * and native tool_calls in both directions.
+ */
+
+import { Content, FunctionCall, FunctionDeclaration } from '../types.js';
+import { OllamaChatMessage, OllamaTool, OllamaToolCall } from './client.js';
+
+export interface ChatMessageOptions {
+  /**
+   * Whether the model understands native tool_calls / tool messages.
+   * When false, calls and results are rendered as plain text turns so
+   * templates without tool support don't silently drop them.
+   */
+  nativeTools?: boolean;
+  /**
+   * How to write a past call back into a text-only history, so the model
+   * sees its calls in the same format it was asked to use
+   */
+  formatToolCall?: (call: FunctionCall) => string;
+}
+
+/**
+ * Convert conversation history to Ollama chat messages
+ *
+ * Roles map as user → user, model → assistant, function → tool.
+ * A system prompt, when given, is sent as the first message.
+ */
+export function toOllamaChatMessages(
+  contents: Content[],
+  systemPrompt?: string,
+  options: ChatMessageOptions = {}
+): OllamaChatMessage[] {
+  const nativeTools = options.nativeTools ?? true;
+  const messages: OllamaChatMessage[] = [];
+
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: systemPrompt });
+  }
+
+  for (const content of contents) {
+    switch (content.role) {
+      case 'user': {
+        const images = collectImages(content);
+        messages.push({
+          role: 'user',
+          content: joinText(content),
+          ...(images.length > 0 ? { images } : {})
+        });
+        break;
+      }
+
+      case 'model': {
+        const calls = content.parts
+          .filter(part => part.functionCall)
+          .map(part => part.functionCall!);
+
+        if (nativeTools) {
+          const toolCalls: OllamaToolCall[] = calls.map(call => ({
+            function: { name: call.name, arguments: call.args }
+          }));
+
+          messages.push({
+            role: 'assistant',
+            content: joinText(content),
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+          });
+        } else {
+          // Echo calls back in the same shape the prompt protocol asks for
+          const formatToolCall = options.formatToolCall
+            || ((call: FunctionCall) => JSON.stringify({ function_call: { name: call.name, arguments: call.args } }));
+          const callText = calls.map(formatToolCall).join('\n');
+
+          messages.push({
+            role: 'assistant',
+            content: [joinText(content), callText].filter(Boolean).join('\n')
+          });
+        }
+        break;
+      }
+
+      case 'function':
+        // One tool message per result so each keeps its own tool_name
+        for (const part of content.parts) {
+          if (part.functionResponse) {
+            const result = stringifyToolResponse(part.functionResponse.response);
+            messages.push(nativeTools
+              ? { role: 'tool', content: result, tool_name: part.functionResponse.name }
+              : { role: 'user', content: `[Function Response: ${part.functionResponse.name}]\n${result}` });
+          } else if (part.text) {
+            messages.push({ role: nativeTools ? 'tool' : 'user', content: part.text });
+          } else if (part.inlineData && messages.length > 0) {
+            // An image a tool returned rides on that tool's result message
+            const result = messages[messages.length - 1];
+            result.images = [...(result.images || []), part.inlineData.data];
+          }
+        }
+        break;
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Wrap function declarations in Ollama's native tools format
+ */
+export function toOllamaTools(declarations: FunctionDeclaration[]): OllamaTool[] {
+  return declarations.map(declaration => ({
+    type: 'function',
+    function: declaration
+  }));
+}
+
+/**
+ * Convert native tool_calls from a chat response into FunctionCalls
+ */
+export function fromOllamaToolCalls(toolCalls: OllamaToolCall[] | undefined): FunctionCall[] {
+  if (!toolCalls) return [];
+
+  return toolCalls
+    .filter(call => call.function?.name)
+    .map(call => ({
+      name: call.function.name,
+      args: normalizeArguments(call.function.arguments)
+    }));
+}
+
+/**
+ * Ollama rejects the tools field outright for models whose template lacks tool support
+ */
+export function isToolsUnsupportedError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  // Ollama, then llama-server without a tool-capable chat template
+  return /does not support tools|tools? (?:are|is) not supported|requires --jinja/i.test(message);
+}
+
+/**
+ * Concatenate the text parts of a content entry
+ */
+function joinText(content: Content): string {
+  return content.parts
+    .map(part => part.text || '')
+    .join('');
+}
+
+/**
+ * Base64 data of every image part
+ */
+function collectImages(content: Content): string[] {
+  return content.parts
+    .filter(part => part.inlineData)
+    .map(part => part.inlineData!.data);
+}
+
+/**
+ * Tool results can be anything - models only ever see strings
+ */
+function stringifyToolResponse(response: unknown): string {
+  if (typeof response === 'string') {
+    return response;
+  }
+  return JSON.stringify(response);
+}
+
+/**
+ * Most models send an object, a few send the arguments as a JSON string
+ */
+function normalizeArguments(args: unknown): Record<string, unknown> {
+  if (typeof args === 'string') {
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return (args as Record<string, unknown>) || {};
+}
\ No newline at end of file
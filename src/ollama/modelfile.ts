@@ -0,0 +1,92 @@
+/**
+ * Modelfiles - derived models with a baked-in system prompt and parameters
+ *
+ * A project-specific model starts every conversation already knowing the
+ * project, without spending context on it. The same spec renders as a
+ * Modelfile for `ollama create -f` and as an /api/create request.
+ */
+
+import { OllamaCreateRequest } from './client.js';
+
+/**
+ * The parameters a derived model can set
+ */
+export interface ModelfileParameters {
+  temperature?: number;
+  num_ctx?: number;
+  /** Sequences that end generation */
+  stop?: string[];
+}
+
+export interface ModelfileSpec {
+  /** Model to build on */
+  from: string;
+  system?: string;
+  parameters?: ModelfileParameters;
+}
+
+const NUMERIC_PARAMETERS = ['temperature', 'num_ctx'] as const;
+
+/**
+ * Render a spec as Modelfile text
+ */
+export function renderModelfile(spec: ModelfileSpec): string {
+  const lines = [`FROM ${spec.from}`];
+
+  for (const [name, value] of Object.entries(spec.parameters || {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      lines.push(`PARAMETER ${name} ${JSON.stringify(item)}`);
+    }
+  }
+
+  if (spec.system) {
+    // Triple quotes end the block, so they can't appear inside it
+    lines.push(`SYSTEM """${spec.system.replace(/"""/g, '" " "')}"""`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * The /api/create request that builds a spec under a new name
+ */
+export function toCreateRequest(name: string, spec: ModelfileSpec): OllamaCreateRequest {
+  return {
+    model: name,
+    from: spec.from,
+    ...(spec.system ? { system: spec.system } : {}),
+    ...(spec.parameters && Object.keys(spec.parameters).length > 0 ? { parameters: { ...spec.parameters } } : {})
+  };
+}
+
+/**
+ * Parse "temperature=0.2 num_ctx=16384 stop=###" into parameters
+ *
+ * `stop` may be given more than once.
+ */
+export function parseModelfileParameters(args: string[]): ModelfileParameters {
+  const parameters: ModelfileParameters = {};
+
+  for (const arg of args) {
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg : arg.slice(0, separator);
+    const value = separator === -1 ? '' : arg.slice(separator + 1);
+    if (!value) {
+      throw new Error(`Expected name=value, got "${arg}"`);
+    }
+
+    if (name === 'stop') {
+      parameters.stop = [...(parameters.stop || []), value];
+    } else if ((NUMERIC_PARAMETERS as readonly string[]).includes(name)) {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        throw new Error(`${name} must be a number, got "${value}"`);
+      }
+      parameters[name as typeof NUMERIC_PARAMETERS[number]] = number;
+    } else {
+      throw new Error(`Unknown parameter "${name}" - use ${[...NUMERIC_PARAMETERS, 'stop'].join(', ')}`);
+    }
+  }
+
+  return parameters;
+}
\ No newline at end of file
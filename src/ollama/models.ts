@@ -12,11 +12,14 @@
  */
 
 import { OllamaClient, OllamaModel, OllamaModelInfo } from './client.js';
+import { ModelCapabilityCache, DiscoveredCapabilities, discoverCapabilities } from './capabilities.js';
 
 export interface ModelCapabilities {
   maxContextLength: number;
   supportsTools: boolean;
   supportsStreaming: boolean;
+  supportsVision: boolean;
+  supportsThinking: boolean;
   recommendedFor: ModelUseCase[];
   performanceProfile: PerformanceProfile;
 }
@@ -41,7 +44,11 @@ export interface LocalModel {
   name: string;
   displayName: string;
   size: number;
+  digest?: string;
+  family?: string;
   capabilities: ModelCapabilities;
+  /** 'ollama' when read from /api/show, 'builtin' when guessed from the name */
+  capabilitiesSource: 'ollama' | 'builtin';
   isAvailable: boolean;
   lastUsed?: Date;
   averageResponseTime?: number;
@@ -62,6 +69,12 @@ export interface HardwareRequirements {
   estimatedResponseTime: number; // seconds
 }
 
+/**
+ * Embedding model used when none is configured - small, fast and on the
+ * Ollama library as `ollama pull nomic-embed-text`
+ */
+export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
 /**
  * Known model configurations and their capabilities
  */
@@ -200,9 +213,11 @@ export class OllamaModelManager {
   private modelCache: Map<string, LocalModel> = new Map();
   private lastCacheUpdate: number = 0;
   private readonly cacheTimeout = 60000; // 1 minute
+  private capabilityCache: ModelCapabilityCache;
 
-  constructor(client?: OllamaClient) {
+  constructor(client?: OllamaClient, capabilityCache?: ModelCapabilityCache) {
     this.client = client || new OllamaClient();
+    this.capabilityCache = capabilityCache || new ModelCapabilityCache();
   }
 
   /**
@@ -341,6 +356,11 @@ export class OllamaModelManager {
     return await this.client.checkHealth();
   }
 
+  /** Forget the cached model list - call after pulling or deleting a model */
+  invalidateCache(): void {
+    this.lastCacheUpdate = 0;
+  }
+
   /**
    * Refresh the model cache from Ollama
    */
@@ -359,6 +379,7 @@ export class OllamaModelManager {
         this.modelCache.set(localModel.name, localModel);
       }
 
+      await this.capabilityCache.save();
       this.lastCacheUpdate = now;
     } catch (error) {
       console.warn('Failed to refresh model cache:', error);
@@ -376,25 +397,63 @@ export class OllamaModelManager {
       maxContextLength: 4096,
       supportsTools: false,
       supportsStreaming: true,
+      supportsVision: false,
+      supportsThinking: false,
       recommendedFor: [ModelUseCase.CHAT],
       performanceProfile: PerformanceProfile.BALANCED
     };
 
+    // What the model itself reports beats the built-in table
+    const discovered = await this.discoverModelCapabilities(ollamaModel);
+
     const capabilities: ModelCapabilities = {
       ...defaultCapabilities,
-      ...knownConfig
+      ...knownConfig,
+      ...(discovered ? {
+        supportsTools: discovered.supportsTools,
+        supportsVision: discovered.supportsVision,
+        supportsThinking: discovered.supportsThinking,
+        ...(discovered.contextLength ? { maxContextLength: discovered.contextLength } : {})
+      } : {})
     };
 
     return {
       name: ollamaModel.name,
       displayName: this.generateDisplayName(ollamaModel.name),
       size: ollamaModel.size,
+      digest: ollamaModel.digest,
+      family: ollamaModel.details?.family,
       capabilities,
+      capabilitiesSource: discovered ? 'ollama' : 'builtin',
       isAvailable: true,
       tags: this.extractTags(ollamaModel.name),
     };
   }
 
+  /**
+   * Read capabilities from /api/show, cached on disk by digest
+   */
+  private async discoverModelCapabilities(ollamaModel: OllamaModel): Promise<DiscoveredCapabilities | null> {
+    if (ollamaModel.digest) {
+      const cached = await this.capabilityCache.get(ollamaModel.digest);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    try {
+      const info: OllamaModelInfo = await this.client.getModelInfo(ollamaModel.name);
+      const discovered = discoverCapabilities(info);
+      if (ollamaModel.digest) {
+        await this.capabilityCache.set(ollamaModel.digest, discovered);
+      }
+      return discovered;
+    } catch (error) {
+      console.warn(`Failed to read capabilities for ${ollamaModel.name}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Generate a human-readable display name for a model
    */
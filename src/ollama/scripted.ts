@@ -0,0 +1,186 @@
+/**
+ * Scripted backend - a fake Ollama driven by a file of canned replies
+ *
+ * Each line of the script is one model reply: a JSON string for plain
+ * text, or an object with content, thinking and tool_calls. Replies are
+ * served in order to every chat or generate request, so a whole session -
+ * tool calls included - runs end to end on a machine with no model.
+ */
+
+import fs from 'fs';
+import { getErrorMessage } from '../interfaces.js';
+import { OllamaFetch, OllamaModel, OllamaModelInfo } from './client.js';
+
+/** The one model the scripted backend offers */
+export const SCRIPTED_MODEL = 'scripted';
+
+export interface ScriptedReply {
+  content?: string;
+  thinking?: string;
+  tool_calls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+}
+
+const SCRIPTED_CONTEXT_LENGTH = 8192;
+const EMBEDDING_DIMENSIONS = 64;
+
+const MODEL: OllamaModel = {
+  name: SCRIPTED_MODEL,
+  size: 0,
+  digest: SCRIPTED_MODEL,
+  modified_at: new Date(0).toISOString(),
+  details: { family: SCRIPTED_MODEL, parameter_size: '0B', quantization_level: 'none' }
+};
+
+const MODEL_INFO: OllamaModelInfo = {
+  ...MODEL,
+  modelfile: '',
+  template: '{{ .Tools }}',
+  details: { families: [SCRIPTED_MODEL], family: SCRIPTED_MODEL, parameter_size: '0B', quantization_level: 'none' },
+  model_info: {
+    'general.architecture': SCRIPTED_MODEL,
+    [`${SCRIPTED_MODEL}.context_length`]: SCRIPTED_CONTEXT_LENGTH
+  },
+  capabilities: ['completion', 'tools', 'thinking']
+};
+
+/**
+ * A transport that answers like Ollama, replying from a script
+ *
+ * Embeddings are hashed bags of words - crude, but deterministic and
+ * enough for semantic search to find exact terms.
+ */
+export function createScriptedFetch(scriptPath: string): OllamaFetch {
+  const replies = loadScript(scriptPath);
+  let next = 0;
+
+  const nextReply = (): ScriptedReply | null => next < replies.length ? replies[next++] : null;
+  const exhausted = () => json({ error: `Script ${scriptPath} ran out after ${replies.length} replies` }, 500);
+
+  return async (url, init) => {
+    const endpoint = new URL(url).pathname;
+    const request = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+
+    switch (endpoint) {
+      case '/':
+        return new Response('Ollama is running');
+
+      case '/api/tags':
+        return json({ models: [MODEL] });
+
+      case '/api/ps':
+        return json({ models: [] });
+
+      case '/api/show':
+        return json(MODEL_INFO);
+
+      case '/api/embed': {
+        const inputs: string[] = Array.isArray(request.input) ? request.input : [request.input];
+        return json({ model: request.model, embeddings: inputs.map(embedText) });
+      }
+
+      case '/api/generate': {
+        // No prompt means a load or unload, which has nothing to do here
+        if (!request.prompt) {
+          return json({ model: request.model, created_at: new Date().toISOString(), response: '', done: true });
+        }
+        const reply = nextReply();
+        if (!reply) return exhausted();
+
+        const created_at = new Date().toISOString();
+        const final = { model: request.model, created_at, response: reply.content || '', done: true, ...usage(reply) };
+        return request.stream
+          ? ndjson([{ model: request.model, created_at, response: final.response, done: false }, { ...final, response: '' }])
+          : json(final);
+      }
+
+      case '/api/chat': {
+        const reply = nextReply();
+        if (!reply) return exhausted();
+
+        const created_at = new Date().toISOString();
+        const text = {
+          role: 'assistant',
+          content: reply.content || '',
+          ...(reply.thinking ? { thinking: reply.thinking } : {})
+        };
+        const toolCalls = (reply.tool_calls || []).map(call => ({
+          function: { name: call.name, arguments: call.arguments || {} }
+        }));
+        const final = { model: request.model, created_at, done: true, done_reason: 'stop', ...usage(reply) };
+
+        // Streamed, the text comes first and tool calls with the final chunk - as Ollama does it
+        return request.stream
+          ? ndjson([
+              { model: request.model, created_at, message: text, done: false },
+              { ...final, message: { role: 'assistant', content: '', ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) } }
+            ])
+          : json({ ...final, message: { ...text, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) } });
+      }
+
+      default:
+        return json({ error: `${endpoint} is not supported by the scripted backend` }, 404);
+    }
+  };
+}
+
+/**
+ * Read the replies from a script file
+ */
+function loadScript(scriptPath: string): ScriptedReply[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(scriptPath, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to load script ${scriptPath}: ${getErrorMessage(error)}`);
+  }
+
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, index) => {
+      let reply: unknown;
+      try {
+        reply = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid reply on line ${index + 1} of ${scriptPath}: ${getErrorMessage(error)}`);
+      }
+      return typeof reply === 'string' ? { content: reply } : reply as ScriptedReply;
+    });
+}
+
+/**
+ * Newline-delimited chunks, as Ollama streams them
+ */
+function ndjson(chunks: object[]): Response {
+  const body = chunks.map(chunk => JSON.stringify(chunk)).join('\n') + '\n';
+  return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Reply token count as if every word were a token
+ */
+function usage(reply: ScriptedReply): { eval_count: number } {
+  const text = [reply.thinking, reply.content, JSON.stringify(reply.tool_calls || [])].join(' ');
+  return { eval_count: text.split(/\s+/).filter(Boolean).length };
+}
+
+/**
+ * Hash each word into a fixed-size vector, normalised to unit length
+ */
+function embedText(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/\w+/g) || []) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    }
+    vector[hash % EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * Per-model token calibration
+ *
+ * Tokenizers differ a lot between model families - 3.5 characters per token
+ * is close for Llama on English prose and far off for code or for Qwen.
+ * Every response tells us how many tokens Ollama actually evaluated, so the
+ * ratio is learned per model from those counts.
+ */
+
+import { OllamaChatRequest, OllamaChatResponse } from './client.js';
+import { CHARS_PER_TOKEN } from './contextWindow.js';
+
+/** Weight of each new sample - high enough to settle within a few turns */
+const SMOOTHING = 0.3;
+
+/** Ratios outside this range come from truncated or empty replies, not the tokenizer */
+const MIN_CHARS_PER_TOKEN = 1;
+const MAX_CHARS_PER_TOKEN = 10;
+
+/** Samples this small are dominated by template tokens */
+const MIN_SAMPLE_TOKENS = 16;
+
+export interface TokenCalibration {
+  charsPerToken: number;
+  samples: number;
+}
+
+/**
+ * Learns a chars-per-token ratio per model from real token counts
+ */
+export class TokenCalibrator {
+  private calibrations: Map<string, TokenCalibration> = new Map();
+
+  /**
+   * Characters per token for a model, or the default guess until calibrated
+   */
+  getCharsPerToken(model: string): number {
+    return this.calibrations.get(model)?.charsPerToken ?? CHARS_PER_TOKEN;
+  }
+
+  /**
+   * Get the calibration for a model, if any samples were recorded
+   */
+  getCalibration(model: string): TokenCalibration | undefined {
+    const calibration = this.calibrations.get(model);
+    return calibration ? { ...calibration } : undefined;
+  }
+
+  /**
+   * Estimate tokens for text using the model's calibrated ratio
+   */
+  estimate(model: string, text: string): number {
+    return Math.ceil(text.length / this.getCharsPerToken(model));
+  }
+
+  /**
+   * Record one observation of text length against its real token count
+   */
+  record(model: string, chars: number, tokens: number): void {
+    if (tokens < MIN_SAMPLE_TOKENS) {
+      return;
+    }
+
+    const ratio = chars / tokens;
+    if (ratio < MIN_CHARS_PER_TOKEN || ratio > MAX_CHARS_PER_TOKEN) {
+      return;
+    }
+
+    const current = this.calibrations.get(model);
+    this.calibrations.set(model, current
+      ? { charsPerToken: current.charsPerToken + SMOOTHING * (ratio - current.charsPerToken), samples: current.samples + 1 }
+      : { charsPerToken: ratio, samples: 1 });
+  }
+
+  /**
+   * Calibrate from a finished chat exchange
+   *
+   * Only the reply is sampled: eval_count covers every generated token,
+   * while prompt_eval_count skips whatever Ollama reused from its cache
+   * and includes template tokens we never see. Reasoning a thinking model
+   * returned separately counts too - its tokens are in eval_count.
+   */
+  recordChat(request: OllamaChatRequest, response: OllamaChatResponse): void {
+    if (response.eval_count) {
+      const toolCalls = response.message.tool_calls;
+      const chars = response.message.content.length +
+        (response.message.thinking?.length ?? 0) +
+        (toolCalls ? JSON.stringify(toolCalls).length : 0);
+      this.record(request.model, chars, response.eval_count);
+    }
+  }
+}
+
+/**
+ * Shared calibrator - every client talking to the same models learns together
+ */
+export const defaultTokenCalibrator = new TokenCalibrator();
\ No newline at end of file
@@ -0,0 +1,297 @@
+/**
+ * Per-model tool-call format adapters
+ *
+ * Models without native tool support were still trained on some tool-call
+ * syntax - Hermes <tool_call> tags for Qwen, {"name", "parameters"} for
+ * Llama 3, [TOOL_CALLS] for Mistral. Asking for the format a model already
+ * knows gets far more reliable calls than one generic JSON protocol.
+ * Adapters are picked by model name, falling back to the family Ollama
+ * reports in /api/tags when no name matches, and more can be added with
+ * registerToolCallAdapter().
+ */
+
+import { FunctionCall, FunctionDeclaration } from '../types.js';
+import { parseToolCalls, ToolCallParseOptions, ToolCallParseResult } from '../utils/toolCallParser.js';
+
+export interface ToolCallAdapter {
+  /** Short name shown to the user, e.g. 'hermes' */
+  name: string;
+  /** Ollama model families (details.family) this adapter handles, when no name pattern matches */
+  families: string[];
+  /** Model name patterns - checked before any family */
+  namePatterns?: RegExp[];
+  /** System prompt section describing the tools and how to call them */
+  renderToolPrompt(functions: FunctionDeclaration[]): string;
+  /** Find tool calls in a reply written in this format */
+  parseToolCalls(text: string, options?: ToolCallParseOptions): ToolCallParseResult;
+  /** Render a past call for history replay, in the format the model was asked for */
+  formatToolCall(call: FunctionCall): string;
+  /** Where a call starts in streamed text - nothing after it is shown live */
+  toolCallMarker: RegExp;
+}
+
+export interface ToolCallAdapterModel {
+  name: string;
+  family?: string;
+}
+
+/**
+ * The original prompt protocol - works tolerably with anything
+ */
+export const defaultToolCallAdapter: ToolCallAdapter = {
+  name: 'json',
+  families: [],
+
+  renderToolPrompt(functions) {
+    const functionDescriptions = functions.map(fn => {
+      const params = Object.entries(fn.parameters.properties)
+        .map(([name, prop]) => `${name}: ${prop.description}`)
+        .join(', ');
+
+      return `${fn.name}(${params}) - ${fn.description}`;
+    }).join('\n');
+
+    return `
+
+FUNCTION CALLING INSTRUCTIONS:
+You have access to the following functions that you can call to perform actions:
+
+${functionDescriptions}
+
+When the user asks you to perform an action that requires using one of these functions, you MUST respond with ONLY this JSON format, nothing else:
+
+{
+  "function_call": {
+    "name": "function_name",
+    "arguments": {
+      "parameter_name": "parameter_value"
+    }
+  }
+}
+
+CRITICAL RULES - FOLLOW EXACTLY:
+1. CREATE/WRITE/SAVE file → MUST use write_file function
+2. CHANGE/FIX part of an existing file → use edit_file function
+3. READ/SHOW/VIEW file → MUST use read_file function
+4. RUN/EXECUTE command → MUST use run_shell_command function
+5. LIST/SHOW directory → MUST use list_directory function
+6. FIND files by name or path pattern → use glob function
+7. FIND code by what it does → use semantic_search function
+
+IMPORTANT: When user wants file operations, respond with ONLY the JSON function call, NOTHING ELSE!
+
+User: "create a file called hello.py with print hello world"
+You MUST respond: {"function_call":{"name":"write_file","arguments":{"file_path":"${process.cwd()}/hello.py","content":"print('Hello, World!')"}}}
+
+User: "make a hello world python script named charizard.py"
+You MUST respond: {"function_call":{"name":"write_file","arguments":{"file_path":"${process.cwd()}/charizard.py","content":"print('Hello, World!')"}}}
+
+NO explanations, NO code blocks, NO other text - ONLY the JSON when user wants file operations!
+
+`;
+  },
+
+  parseToolCalls(text, options) {
+    return parseToolCalls(text, options);
+  },
+
+  formatToolCall(call) {
+    return JSON.stringify({ function_call: { name: call.name, arguments: call.args } });
+  },
+
+  toolCallMarker: /\{\s*"function_call"/
+};
+
+/**
+ * Hermes-style <tool_call> tags - Qwen 2/2.5/3 and Hermes fine-tunes
+ */
+export const hermesToolCallAdapter: ToolCallAdapter = {
+  name: 'hermes',
+  families: ['qwen', 'qwen2', 'qwen3', 'qwen2moe', 'qwen3moe'],
+  namePatterns: [/hermes/i, /qwen/i],
+
+  renderToolPrompt(functions) {
+    const tools = functions
+      .map(fn => JSON.stringify({ type: 'function', function: fn }))
+      .join('\n');
+
+    return `
+
+# Tools
+
+You may call one or more functions to assist with the user query.
+
+You are provided with function signatures within <tools></tools> XML tags:
+<tools>
+${tools}
+</tools>
+
+For each function call, return a json object with function name and arguments within <tool_call></tool_call> XML tags:
+<tool_call>
+{"name": <function-name>, "arguments": <args-json-object>}
+</tool_call>
+
+Example: to create hello.py, respond with
+<tool_call>
+{"name": "write_file", "arguments": {"file_path": "${process.cwd()}/hello.py", "content": "print('Hello, World!')"}}
+</tool_call>
+`;
+  },
+
+  parseToolCalls(text, options) {
+    // The generic parser already finds JSON inside the tags
+    return parseToolCalls(text, options);
+  },
+
+  formatToolCall(call) {
+    return `<tool_call>\n${JSON.stringify({ name: call.name, arguments: call.args })}\n</tool_call>`;
+  },
+
+  toolCallMarker: /<tool_call>|\{\s*"function_call"/
+};
+
+/**
+ * Llama 3.1+ JSON tool calls - {"name": ..., "parameters": ...}
+ */
+export const llama3ToolCallAdapter: ToolCallAdapter = {
+  name: 'llama3',
+  // Ollama reports "llama" for Llama 2, Code Llama and Mistral too, so only the name tells
+  families: [],
+  namePatterns: [/llama-?3/i],
+
+  renderToolPrompt(functions) {
+    const tools = functions
+      .map(fn => JSON.stringify({ type: 'function', function: fn }, null, 2))
+      .join('\n\n');
+
+    return `
+
+Given the following functions, please respond with a JSON for a function call with its proper arguments that best answers the given prompt.
+
+Respond in the format {"name": function name, "parameters": dictionary of argument name and its value}. Do not use variables.
+
+${tools}
+
+Example: to create hello.py, respond with
+{"name": "write_file", "parameters": {"file_path": "${process.cwd()}/hello.py", "content": "print('Hello, World!')"}}
+`;
+  },
+
+  parseToolCalls(text, options) {
+    return parseToolCalls(text.replace(/<\|python_tag\|>|<\|eom_id\|>|<\|eot_id\|>/g, ''), options);
+  },
+
+  formatToolCall(call) {
+    return JSON.stringify({ name: call.name, parameters: call.args });
+  },
+
+  toolCallMarker: /<\|python_tag\|>|\{\s*"name"\s*:/
+};
+
+/**
+ * Mistral [AVAILABLE_TOOLS] / [TOOL_CALLS] format
+ */
+export const mistralToolCallAdapter: ToolCallAdapter = {
+  name: 'mistral',
+  families: [],
+  namePatterns: [/mistral/i, /mixtral/i],
+
+  renderToolPrompt(functions) {
+    const tools = JSON.stringify(functions.map(fn => ({ type: 'function', function: fn })));
+
+    return `
+
+[AVAILABLE_TOOLS]${tools}[/AVAILABLE_TOOLS]
+
+To call tools, respond with [TOOL_CALLS] followed by a JSON list of calls and nothing else:
+[TOOL_CALLS] [{"name": "write_file", "arguments": {"file_path": "${process.cwd()}/hello.py", "content": "print('Hello, World!')"}}]
+`;
+  },
+
+  parseToolCalls(text, options) {
+    return parseToolCalls(text.replace(/\[TOOL_CALLS\]/g, ' '), options);
+  },
+
+  formatToolCall(call) {
+    return `[TOOL_CALLS] ${JSON.stringify([{ name: call.name, arguments: call.args }])}`;
+  },
+
+  toolCallMarker: /\[TOOL_CALLS\]/
+};
+
+/**
+ * DeepSeek's special-token tool syntax:
+ * <｜tool▁call▁begin｜>function<｜tool▁sep｜>name\n```json\n{...}\n```<｜tool▁call▁end｜>
+ */
+export const deepseekToolCallAdapter: ToolCallAdapter = {
+  name: 'deepseek',
+  families: ['deepseek', 'deepseek2'],
+  namePatterns: [/deepseek/i],
+
+  renderToolPrompt(functions) {
+    return defaultToolCallAdapter.renderToolPrompt(functions);
+  },
+
+  parseToolCalls(text, options = {}) {
+    const calls: FunctionCall[] = [];
+    const pattern = /<｜tool▁sep｜>\s*([\w.-]+)\s*```(?:json)?\s*([\s\S]*?)```/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const [, name, argsText] = match;
+      if (options.knownTools && !options.knownTools.includes(name)) continue;
+
+      const parsed = parseToolCalls(`{"name": ${JSON.stringify(name)}, "arguments": ${argsText.trim()}}`, options);
+      calls.push(...parsed.calls);
+    }
+
+    // Most DeepSeek builds on Ollama answer in plain JSON when asked to
+    return calls.length > 0 ? { calls, errors: [] } : parseToolCalls(text, options);
+  },
+
+  formatToolCall(call) {
+    return defaultToolCallAdapter.formatToolCall(call);
+  },
+
+  toolCallMarker: /<｜tool▁calls?▁begin｜>|\{\s*"function_call"/
+};
+
+const toolCallAdapters: ToolCallAdapter[] = [
+  hermesToolCallAdapter,
+  llama3ToolCallAdapter,
+  mistralToolCallAdapter,
+  deepseekToolCallAdapter,
+];
+
+/**
+ * Add an adapter for more families or model names
+ *
+ * Registered adapters are checked before the built-in ones, so one can
+ * take over models from them.
+ */
+export function registerToolCallAdapter(adapter: ToolCallAdapter): void {
+  const index = toolCallAdapters.findIndex(existing => existing.name === adapter.name);
+  if (index !== -1) {
+    toolCallAdapters.splice(index, 1);
+  }
+  toolCallAdapters.unshift(adapter);
+}
+
+/**
+ * Pick the adapter for a model - by name, then by the family Ollama
+ * reports when no name matches, then the default
+ *
+ * The name goes first because families are coarse: Mistral models report
+ * "llama". The family still catches fine-tunes whose names say nothing.
+ */
+export function getToolCallAdapter(model: ToolCallAdapterModel): ToolCallAdapter {
+  const byName = toolCallAdapters.find(adapter =>
+    adapter.namePatterns?.some(pattern => pattern.test(model.name))
+  );
+  if (byName) {
+    return byName;
+  }
+
+  const family = model.family?.toLowerCase();
+  return (family && toolCallAdapters.find(adapter => adapter.families.includes(family))) || defaultToolCallAdapter;
+}
\ No newline at end of file
@@ -0,0 +1,473 @@
+/**
+ * OpenAI-compatible chat client
+ *
+ * llama.cpp's llama-server, LM Studio and vLLM all serve the OpenAI
+ * chat-completions API. This client speaks it and translates to and from
+ * the Ollama chat shape, so the rest of the code doesn't care which
+ * server is behind it.
+ */
+
+import { getErrorMessage, LlmBackend, BackendModel } from '../interfaces.js';
+import {
+  OllamaAbortError,
+  OllamaChatMessage,
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+  OllamaTimeoutError,
+  OllamaToolCall,
+} from '../ollama/client.js';
+import { sniffImageMimeType } from '../utils/images.js';
+
+export interface OpenAIClientConfig {
+  /** Base URL including the version prefix, e.g. http://localhost:8080/v1 */
+  host?: string;
+  apiKey?: string;
+  timeout?: number;
+  retries?: number;
+  /** Inputs sent per /embeddings request */
+  embedBatchSize?: number;
+}
+
+interface OpenAIToolCall {
+  id?: string;
+  type?: 'function';
+  function: {
+    name?: string;
+    /** JSON-encoded - OpenAI never sends arguments as an object */
+    arguments?: string;
+  };
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIChatCompletion {
+  model: string;
+  choices: Array<{
+    /** Replies are always plain text */
+    message: OpenAIMessage & { content: string | null; reasoning_content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatChunk {
+  model: string;
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      /** llama-server and vLLM send reasoning separately from the reply */
+      reasoning_content?: string | null;
+      tool_calls?: Array<OpenAIToolCall & { index: number }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIErrorBody {
+  error?: string | { message?: string };
+  message?: string;
+}
+
+/**
+ * Chat client for OpenAI-compatible local servers
+ */
+export class OpenAICompatibleClient implements LlmBackend {
+  readonly kind = 'openai' as const;
+  private readonly host: string;
+  private readonly apiKey?: string;
+  private readonly timeout: number;
+  private readonly retries: number;
+  private readonly embedBatchSize: number;
+
+  constructor(config: OpenAIClientConfig = {}) {
+    this.host = (config.host || 'http://localhost:8080/v1').replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.timeout = config.timeout || 120000;
+    this.retries = config.retries || 3;
+    this.embedBatchSize = config.embedBatchSize || 32;
+  }
+
+  /**
+   * Check the server is up - every compatible server lists its models
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await this.request('GET', '/models');
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List the models the server can serve
+   */
+  async listModels(): Promise<BackendModel[]> {
+    const response = await this.request('GET', '/models');
+    if (!response.ok) {
+      throw new Error(`Failed to list models: ${await this.readError(response)}`);
+    }
+
+    const data = await response.json() as { data?: Array<{ id: string; created?: number }> };
+    return (data.data || []).map(model => ({
+      name: model.id,
+      ...(model.created ? { modified_at: new Date(model.created * 1000).toISOString() } : {})
+    }));
+  }
+
+  /**
+   * Chat completion
+   */
+  async chat(request: OllamaChatRequest, signal?: AbortSignal): Promise<OllamaChatResponse> {
+    const response = await this.request('POST', '/chat/completions', this.toOpenAIRequest(request, false), signal);
+    if (!response.ok) {
+      throw new Error(`Chat request failed: ${await this.readError(response)}`);
+    }
+
+    const completion = await response.json() as OpenAIChatCompletion;
+    const choice = completion.choices[0];
+    const toolCalls = this.fromOpenAIToolCalls(choice?.message.tool_calls || []);
+
+    return {
+      model: completion.model || request.model,
+      created_at: new Date().toISOString(),
+      message: {
+        role: 'assistant',
+        content: choice?.message.content || '',
+        ...(choice?.message.reasoning_content ? { thinking: choice.message.reasoning_content } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      },
+      done: true,
+      done_reason: choice?.finish_reason || undefined,
+      prompt_eval_count: completion.usage?.prompt_tokens,
+      eval_count: completion.usage?.completion_tokens,
+    };
+  }
+
+  /**
+   * Streaming chat completion
+   *
+   * Text arrives as it's generated; tool calls stream in fragments and are
+   * only emitted, whole, with the final chunk.
+   */
+  async* chatStream(request: OllamaChatRequest, signal?: AbortSignal): AsyncGenerator<OllamaChatResponse> {
+    const response = await this.request('POST', '/chat/completions', this.toOpenAIRequest(request, true), signal);
+    if (!response.ok) {
+      throw new Error(`Streaming chat request failed: ${await this.readError(response)}`);
+    }
+
+    const pendingCalls = new Map<number, { name: string; arguments: string }>();
+    let finishReason: string | undefined;
+    let usage: OpenAIUsage | undefined;
+    let model = request.model;
+
+    for await (const chunk of this.readEvents<OpenAIChatChunk>(response)) {
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      for (const call of choice.delta.tool_calls || []) {
+        const pending = pendingCalls.get(call.index) || { name: '', arguments: '' };
+        pending.name += call.function.name || '';
+        pending.arguments += call.function.arguments || '';
+        pendingCalls.set(call.index, pending);
+      }
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      if (choice.delta.content || choice.delta.reasoning_content) {
+        yield {
+          model,
+          created_at: new Date().toISOString(),
+          message: {
+            role: 'assistant',
+            content: choice.delta.content || '',
+            ...(choice.delta.reasoning_content ? { thinking: choice.delta.reasoning_content } : {})
+          },
+          done: false
+        };
+      }
+    }
+
+    const toolCalls = this.fromOpenAIToolCalls(
+      [...pendingCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, call]) => ({ function: call }))
+    );
+
+    yield {
+      model,
+      created_at: new Date().toISOString(),
+      message: {
+        role: 'assistant',
+        content: '',
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      },
+      done: true,
+      done_reason: finishReason,
+      prompt_eval_count: usage?.prompt_tokens,
+      eval_count: usage?.completion_tokens,
+    };
+  }
+
+  /**
+   * Embed text through /embeddings, in batches
+   */
+  async embed(request: OllamaEmbedRequest, signal?: AbortSignal): Promise<OllamaEmbedResponse> {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    const embeddings: number[][] = [];
+    let promptTokens = 0;
+
+    for (let start = 0; start < inputs.length; start += this.embedBatchSize) {
+      const batch = inputs.slice(start, start + this.embedBatchSize);
+      const response = await this.request('POST', '/embeddings', { model: request.model, input: batch }, signal);
+      if (!response.ok) {
+        throw new Error(`Failed to embed with ${request.model}: ${await this.readError(response)}`);
+      }
+
+      const data = await response.json() as { data?: Array<{ index: number; embedding: number[] }>; usage?: OpenAIUsage };
+      const vectors = (data.data || []).sort((a, b) => a.index - b.index).map(item => item.embedding);
+      if (vectors.length !== batch.length) {
+        throw new Error(`Embedding model ${request.model} returned ${vectors.length} vectors for ${batch.length} inputs`);
+      }
+
+      embeddings.push(...vectors);
+      promptTokens += data.usage?.prompt_tokens || 0;
+    }
+
+    return { model: request.model, embeddings, prompt_eval_count: promptTokens };
+  }
+
+  /**
+   * Translate an Ollama chat request into a chat-completions body
+   */
+  private toOpenAIRequest(request: OllamaChatRequest, stream: boolean): Record<string, unknown> {
+    const options = request.options || {};
+
+    return {
+      model: request.model,
+      messages: this.toOpenAIMessages(request.messages),
+      ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      // num_ctx and keep_alive are fixed when these servers start
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.top_p !== undefined ? { top_p: options.top_p } : {}),
+      ...(options.top_k !== undefined ? { top_k: options.top_k } : {}),
+      ...(options.repeat_penalty !== undefined ? { repeat_penalty: options.repeat_penalty } : {}),
+      ...(options.seed !== undefined ? { seed: options.seed } : {}),
+      ...(options.stop && options.stop.length > 0 ? { stop: options.stop } : {}),
+      ...(options.num_predict !== undefined && options.num_predict > 0 ? { max_tokens: options.num_predict } : {}),
+    };
+  }
+
+  /**
+   * OpenAI links tool results to calls by id; Ollama history has no ids,
+   * so results are matched to the preceding calls in order
+   */
+  private toOpenAIMessages(messages: OllamaChatMessage[]): OpenAIMessage[] {
+    const result: OpenAIMessage[] = [];
+    const pendingIds: string[] = [];
+    let nextId = 0;
+
+    for (const message of messages) {
+      if (message.role === 'assistant' && message.tool_calls?.length) {
+        const toolCalls = message.tool_calls.map(call => {
+          const id = `call_${nextId++}`;
+          pendingIds.push(id);
+          return {
+            id,
+            type: 'function' as const,
+            function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments) }
+          };
+        });
+        result.push({ role: 'assistant', content: message.content || null, tool_calls: toolCalls });
+      } else if (message.role === 'tool') {
+        result.push({ role: 'tool', content: message.content, tool_call_id: pendingIds.shift() || `call_${nextId++}` });
+        // Tool messages can't carry images, so they follow as a user turn
+        if (message.images?.length) {
+          result.push({ role: 'user', content: this.toContentParts('', message.images) });
+        }
+      } else if (message.images?.length) {
+        result.push({ role: message.role, content: this.toContentParts(message.content, message.images) });
+      } else {
+        result.push({ role: message.role, content: message.content });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Text plus images as data: URLs
+   */
+  private toContentParts(text: string, images: string[]): OpenAIContentPart[] {
+    return [
+      ...(text ? [{ type: 'text' as const, text }] : []),
+      ...images.map(data => ({
+        type: 'image_url' as const,
+        image_url: { url: `data:${sniffImageMimeType(data)};base64,${data}` }
+      })),
+    ];
+  }
+
+  /**
+   * Parse JSON-string arguments into the object form Ollama uses
+   */
+  private fromOpenAIToolCalls(calls: OpenAIToolCall[]): OllamaToolCall[] {
+    return calls
+      .filter(call => call.function.name)
+      .map(call => {
+        let args: Record<string, unknown> = {};
+        try {
+          args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+        } catch {
+          // Left empty - validation reports the missing parameters to the model
+        }
+        return { function: { name: call.function.name!, arguments: args } };
+      });
+  }
+
+  /**
+   * Read a server-sent event stream of JSON payloads until [DONE]
+   *
+   * A long reply can stream for much longer than the request timeout, so
+   * the timeout only applies to gaps between chunks.
+   */
+  private async* readEvents<T>(response: Response): AsyncGenerator<T> {
+    if (!response.body) {
+      throw new Error('No response body for streaming request');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const readChunk = () => new Promise<ReadableStreamReadResult<Uint8Array>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new OllamaTimeoutError(`${this.host} sent nothing for ${this.timeout / 1000}s`);
+        reader.cancel(error).catch(() => {});
+        reject(error);
+      }, this.timeout);
+      reader.read().then(resolve, reject).finally(() => clearTimeout(timer));
+    });
+
+    try {
+      while (true) {
+        const { done, value } = await readChunk();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+
+          const payload = line.slice(5).trim();
+          if (payload === '[DONE]') {
+            return;
+          }
+          try {
+            yield JSON.parse(payload) as T;
+          } catch {
+            console.warn('Failed to parse streaming response chunk:', line);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Pull the message out of whichever error shape the server uses
+   */
+  private async readError(response: Response): Promise<string> {
+    const text = await response.text();
+    try {
+      const body = JSON.parse(text) as OpenAIErrorBody;
+      const error = typeof body.error === 'string' ? body.error : body.error?.message;
+      return error || body.message || `HTTP ${response.status}`;
+    } catch {
+      return text || `HTTP ${response.status}`;
+    }
+  }
+
+  /**
+   * Make an HTTP request with retry logic; cancelled and timed-out
+   * requests are never retried
+   *
+   * The timeout covers waiting for the response headers only; streamed
+   * bodies are timed chunk by chunk in readEvents.
+   */
+  private async request(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const url = `${this.host}${endpoint}`;
+
+    for (let attempt = 0; attempt < this.retries; attempt++) {
+      const timeout = new AbortController();
+      const timer = setTimeout(() => {
+        timeout.abort(new OllamaTimeoutError(`${this.host} didn't respond within ${this.timeout / 1000}s`));
+      }, this.timeout);
+
+      try {
+        return await fetch(url, {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new OllamaAbortError();
+        }
+        if (timeout.signal.aborted) {
+          throw timeout.signal.reason;
+        }
+        if (attempt === this.retries - 1) {
+          throw new Error(
+            `Request to ${this.host} failed after ${this.retries} attempts: ${getErrorMessage(error)}`
+          );
+        }
+
+        // Exponential backoff
+        const delay = Math.pow(2, attempt) * 1000;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    throw new Error('Request failed unexpectedly');
+  }
+}
\ No newline at end of file
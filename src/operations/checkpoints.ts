@@ -0,0 +1,243 @@
+/**
+ * File checkpoints - what files looked like before the AI changed them
+ *
+ * Before a tool writes, renames or deletes a file, the file as it was is
+ * copied into the current turn's checkpoint under .numidium/checkpoints.
+ * Only the first change to a file in a turn is kept, so restoring a
+ * checkpoint puts the file back as it was when the turn started. Turns
+ * that change nothing leave no checkpoint.
+ *
+ * .numidium/checkpoints/
+ *   2026-03-14T09-30-12-345Z/
+ *     checkpoint.json   { id, prompt, createdAt, files: [{ path, existed }] }
+ *     files/0           content of files[0] before the turn
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getErrorMessage } from '../interfaces.js';
+
+/**
+ * A file as it was before a turn changed it
+ */
+export interface CheckpointFile {
+  /** Absolute path */
+  path: string;
+  /** False when the turn created the file - restoring removes it */
+  existed: boolean;
+}
+
+export interface Checkpoint {
+  id: string;
+  /** The user's message that started the turn */
+  prompt: string;
+  createdAt: string;
+  files: CheckpointFile[];
+}
+
+/**
+ * What restoring one or more checkpoints put back
+ */
+export interface RestoreResult {
+  /** The checkpoints restored, newest first - they're gone afterwards */
+  checkpoints: Checkpoint[];
+  /** Every file reverted, relative to the working directory */
+  files: string[];
+}
+
+/** Older checkpoints are removed beyond this many */
+const MAX_CHECKPOINTS = 50;
+
+const MANIFEST = 'checkpoint.json';
+
+/**
+ * Records files before tools change them, one checkpoint per turn
+ */
+export class CheckpointStore {
+  private pendingPrompt: string | null = null;
+  private current: Checkpoint | null = null;
+
+  constructor(
+    private readonly directory: string = path.join(process.cwd(), '.numidium', 'checkpoints')
+  ) {}
+
+  /**
+   * Start a new turn - the next change creates its checkpoint
+   */
+  beginTurn(prompt: string): void {
+    this.pendingPrompt = prompt;
+    this.current = null;
+  }
+
+  /**
+   * Save files as they are now, before a tool changes them
+   *
+   * Files already saved this turn are skipped. Outside a turn this does
+   * nothing.
+   */
+  async snapshot(filePaths: string[]): Promise<void> {
+    for (const filePath of filePaths.map(p => path.resolve(p))) {
+      if (this.pendingPrompt === null || filePath.startsWith(this.directory + path.sep)) {
+        continue;
+      }
+
+      const checkpoint = this.current ?? await this.createCheckpoint(this.pendingPrompt);
+      if (checkpoint.files.some(file => file.path === filePath)) {
+        continue;
+      }
+
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (stats && !stats.isFile()) {
+        continue;
+      }
+      if (stats) {
+        await fs.copyFile(filePath, this.snapshotPath(checkpoint.id, checkpoint.files.length));
+      }
+      checkpoint.files.push({ path: filePath, existed: stats !== null });
+      await this.writeManifest(checkpoint);
+    }
+  }
+
+  /**
+   * Every checkpoint, newest first
+   */
+  async list(): Promise<Checkpoint[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const checkpoints: Checkpoint[] = [];
+    for (const entry of entries) {
+      try {
+        const content = await fs.readFile(path.join(this.directory, entry, MANIFEST), 'utf-8');
+        checkpoints.push(JSON.parse(content) as Checkpoint);
+      } catch {
+        // Half-written or not a checkpoint - skip it
+      }
+    }
+    return checkpoints.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Revert the most recent turn's changes
+   */
+  async undo(): Promise<RestoreResult> {
+    const [latest] = await this.list();
+    if (!latest) {
+      throw new Error('Nothing to undo - no file changes have been recorded');
+    }
+    return await this.restore([latest]);
+  }
+
+  /**
+   * Revert a turn's changes and every turn's after it
+   */
+  async rewind(id: string): Promise<RestoreResult> {
+    const checkpoints = await this.list();
+    const index = checkpoints.findIndex(checkpoint => checkpoint.id === id);
+    if (index === -1) {
+      throw new Error(`No checkpoint ${id}`);
+    }
+    return await this.restore(checkpoints.slice(0, index + 1));
+  }
+
+  /**
+   * Put files back newest checkpoint first, so each ends up as it was
+   * before the oldest of them, then drop the checkpoints
+   */
+  private async restore(checkpoints: Checkpoint[]): Promise<RestoreResult> {
+    const reverted = new Set<string>();
+    const problems: string[] = [];
+
+    for (const checkpoint of checkpoints) {
+      for (const [index, file] of checkpoint.files.entries()) {
+        try {
+          if (file.existed) {
+            await fs.mkdir(path.dirname(file.path), { recursive: true });
+            await fs.copyFile(this.snapshotPath(checkpoint.id, index), file.path);
+          } else {
+            await fs.rm(file.path, { force: true });
+          }
+          reverted.add(path.relative(process.cwd(), file.path));
+        } catch (error) {
+          problems.push(`${file.path}: ${getErrorMessage(error)}`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      // Keep the checkpoints so the restore can be retried
+      throw new Error(`Failed to restore some files:\n${problems.join('\n')}`);
+    }
+
+    for (const checkpoint of checkpoints) {
+      await fs.rm(path.join(this.directory, checkpoint.id), { recursive: true, force: true });
+      if (this.current?.id === checkpoint.id) {
+        this.current = null;
+      }
+    }
+
+    return { checkpoints, files: [...reverted] };
+  }
+
+  private async createCheckpoint(prompt: string): Promise<Checkpoint> {
+    const createdAt = new Date().toISOString();
+    const checkpoint: Checkpoint = {
+      id: createdAt.replace(/[:.]/g, '-'),
+      prompt,
+      createdAt,
+      files: []
+    };
+
+    await fs.mkdir(path.join(this.directory, checkpoint.id, 'files'), { recursive: true });
+    await this.writeManifest(checkpoint);
+    this.current = checkpoint;
+
+    await this.prune();
+    return checkpoint;
+  }
+
+  /**
+   * Remove the oldest checkpoints beyond the limit
+   */
+  private async prune(): Promise<void> {
+    const checkpoints = await this.list();
+    for (const checkpoint of checkpoints.slice(MAX_CHECKPOINTS)) {
+      await fs.rm(path.join(this.directory, checkpoint.id), { recursive: true, force: true });
+    }
+  }
+
+  private async writeManifest(checkpoint: Checkpoint): Promise<void> {
+    await fs.writeFile(path.join(this.directory, checkpoint.id, MANIFEST), JSON.stringify(checkpoint, null, 2), 'utf-8');
+  }
+
+  private snapshotPath(id: string, index: number): string {
+    return path.join(this.directory, id, 'files', String(index));
+  }
+}
+
+let activeStore: CheckpointStore | null = null;
+
+/**
+ * Make a store the one tools record into - the session's
+ */
+export function setCheckpointStore(store: CheckpointStore | null): void {
+  activeStore = store;
+}
+
+/**
+ * Save files into the current turn's checkpoint before changing them
+ *
+ * Call this before every write, rename or delete a tool makes. A failed
+ * snapshot doesn't stop the change - it only means it can't be undone.
+ */
+export async function snapshotBeforeChange(filePaths: string[]): Promise<void> {
+  try {
+    await activeStore?.snapshot(filePaths);
+  } catch (error) {
+    console.warn('Failed to checkpoint files before changing them:', error);
+  }
+}
\ No newline at end of file
@@ -9,6 +9,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { ProjectContext } from '../analysis/projectContext.js';
 import { IntelligentCodeGenerator, GenerationRequest } from '../generation/codeGenerator.js';
+import { snapshotBeforeChange } from './checkpoints.js';
 
 /**
  * Represents a file operation to be performed
@@ -18,7 +19,7 @@ export interface FileOperation {
   type: 'create' | 'update' | 'delete' | 'move';
   /** Target file path */
   filePath: string;
-  /** File content (for create/update) */
+  /** File content (for create/update, and for a move that also changes the file) */
   content?: string;
   /** Original path (for move operations) */
   originalPath?: string;
@@ -54,6 +55,65 @@ export interface OperationRequest {
   parameters?: Record<string, any>;
 }
 
+/**
+ * Perform file operations as one unit - if any of them fails, every file
+ * they touched is put back the way it was and the error is rethrown
+ */
+export async function applyFileOperations(operations: FileOperation[]): Promise<void> {
+  // Original bytes of every path involved, null where there was no file -
+  // raw, so a binary file that's renamed comes back intact
+  const originals = new Map<string, Buffer | null>();
+  for (const operation of operations) {
+    for (const filePath of [operation.filePath, operation.originalPath]) {
+      if (filePath && !originals.has(filePath)) {
+        originals.set(filePath, await fs.readFile(filePath).catch(() => null));
+      }
+    }
+  }
+  await snapshotBeforeChange([...originals.keys()]);
+
+  try {
+    for (const operation of operations) {
+      switch (operation.type) {
+        case 'create':
+        case 'update':
+          await fs.mkdir(path.dirname(operation.filePath), { recursive: true });
+          await fs.writeFile(operation.filePath, operation.content ?? '', 'utf8');
+          break;
+        case 'delete':
+          await fs.unlink(operation.filePath);
+          break;
+        case 'move':
+          if (!operation.originalPath) {
+            throw new Error(`Move to ${operation.filePath} has no original path`);
+          }
+          await fs.mkdir(path.dirname(operation.filePath), { recursive: true });
+          if (operation.content !== undefined) {
+            await fs.writeFile(operation.filePath, operation.content, 'utf8');
+            await fs.unlink(operation.originalPath);
+          } else {
+            await fs.rename(operation.originalPath, operation.filePath);
+          }
+          break;
+      }
+    }
+  } catch (error) {
+    for (const [filePath, content] of originals) {
+      try {
+        if (content === null) {
+          await fs.rm(filePath, { force: true });
+        } else {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, content);
+        }
+      } catch {
+        // Keep restoring the rest
+      }
+    }
+    throw error;
+  }
+}
+
 /**
  * Manages complex multi-file development operations
  */
@@ -4,6 +4,9 @@
  * Provides context and instructions for AI when using file system and shell tools
  */
 
+import * as path from 'path';
+import type { ProjectContext } from '../analysis/projectContext.js';
+
 export const SYSTEM_PROMPTS = {
   /**
    * Core system prompt that establishes Numidium-Local's behavior and capabilities
@@ -46,6 +49,7 @@ Remember: You're running locally with full access to the development environment
 READING FILES:
 - Read relevant files to understand the project structure
 - Look for configuration files (package.json, tsconfig.json, etc.) to understand the tech stack
+- Find files by name with glob (e.g. src/**/*.tsx) instead of guessing paths or running find
 - Check existing code patterns before suggesting changes
 - Always read before writing to understand current implementation
 
@@ -53,6 +57,8 @@ WRITING/MODIFYING FILES:
 - Explain what changes you're making and why
 - Preserve existing code style and formatting
 - Make minimal, focused changes that address the specific request
+- Change part of an existing file with edit_file; use write_file only for new files or complete rewrites
+- For a change that spans several files (including new, deleted or renamed ones), send one unified diff with apply_patch
 - Always backup important changes by describing what you're replacing
 - Use appropriate file extensions and follow project conventions
 
@@ -239,4 +245,27 @@ export function createSystemMessage(
   }
   
   return basePrompt + contextualInfo;
+}
+
+/**
+ * System prompt for a project-specific model - the core prompt plus what
+ * the project analysis found, for baking into a Modelfile
+ */
+export function createProjectSystemPrompt(context: ProjectContext): string {
+  const { stack, style, testing, structure } = context;
+  const lines = [
+    `- Project: ${path.basename(context.rootPath)}`,
+    `- Stack: ${stack.framework} with ${stack.language}${stack.buildTool ? `, built with ${stack.buildTool}` : ''}, ${stack.packageManager}`,
+    `- Code Style: ${style.indentation === 'spaces' ? `${style.indentSize} spaces` : 'tabs'}, ${style.quoteStyle} quotes, ${style.useSemicolons ? 'with' : 'without'} semicolons`,
+    `- Source: ${structure.sourceDir}/, organized by ${structure.organizationStyle}`
+  ];
+
+  if (stack.testFramework) {
+    lines.push(`- Tests: ${stack.testFramework}, ${testing.namingPattern}, ${testing.location}`);
+  }
+  if (stack.linter) {
+    lines.push(`- Linter: ${stack.linter}`);
+  }
+
+  return `${SYSTEM_PROMPTS.CORE}\n\nPROJECT CONTEXT:\n${lines.join('\n')}`;
 }
\ No newline at end of file
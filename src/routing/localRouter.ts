@@ -8,6 +8,8 @@
  */
 
 import { OllamaClient } from '../ollama/client.js';
+import { discoverCapabilities } from '../ollama/capabilities.js';
+import { estimateTokens, planContextWindow } from '../ollama/contextWindow.js';
 
 export interface RoutingDecision {
   /** Should execute tools directly */
@@ -44,6 +46,7 @@ export class LocalToolRouter {
   private ollamaClient: OllamaClient;
   private config: RouterConfig;
   private patternCache: Map<string, RoutingDecision> = new Map();
+  private contextLimits: Map<string, number | undefined> = new Map();
 
   constructor(ollamaClient: OllamaClient, config: RouterConfig) {
     this.ollamaClient = ollamaClient;
@@ -231,6 +234,10 @@ export class LocalToolRouter {
     }
 
     const classificationPrompt = this.buildClassificationPrompt(userInput, conversationContext);
+    const contextPlan = planContextWindow(estimateTokens(classificationPrompt), {
+      maxContextLength: await this.getContextLimit(this.config.classificationModel),
+      maxOutputTokens: 200
+    });
     
     const response = await this.ollamaClient.generate({
       model: this.config.classificationModel,
@@ -238,13 +245,29 @@ export class LocalToolRouter {
       stream: false,
       options: { 
         temperature: 0.1, 
-        num_predict: 200 // Low temperature, short response for efficiency
+        num_predict: 200, // Low temperature, short response for efficiency
+        num_ctx: contextPlan.numCtx
       }
     });
 
     return this.parseClassificationResponse(response.response, userInput);
   }
 
+  /**
+   * Look up a model's trained context length once per model
+   */
+  private async getContextLimit(modelName: string): Promise<number | undefined> {
+    if (!this.contextLimits.has(modelName)) {
+      try {
+        const info = await this.ollamaClient.getModelInfo(modelName);
+        this.contextLimits.set(modelName, discoverCapabilities(info).contextLength);
+      } catch {
+        this.contextLimits.set(modelName, undefined);
+      }
+    }
+    return this.contextLimits.get(modelName);
+  }
+
   /**
    * Build prompt for classification model
    */
@@ -0,0 +1,153 @@
+/**
+ * Generation parameter profiles
+ *
+ * Named sets of sampling options, kept per model in
+ * ~/.numidium/profiles.json - a model can have a careful profile for
+ * editing code and a looser one for brainstorming, and the one last
+ * selected is remembered across sessions.
+ *
+ * {
+ *   "models": {
+ *     "*": { "long": { "num_ctx": 32768, "num_predict": -1 } },
+ *     "qwen3:latest": { "coding": { "temperature": 0.2, "top_k": 20, "stop": ["<|im_end|>"] } }
+ *   },
+ *   "active": { "qwen3:latest": "coding" }
+ * }
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { getErrorMessage } from '../interfaces.js';
+
+/**
+ * Sampling options a profile can set - anything left out uses the
+ * model's own default (or its Modelfile's)
+ */
+export interface GenerationParameters {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  repeat_penalty?: number;
+  seed?: number;
+  stop?: string[];
+  /** Reply length limit, -1 for none */
+  num_predict?: number;
+  /** Context window - sized automatically from the prompt when omitted */
+  num_ctx?: number;
+}
+
+export interface ParameterProfile {
+  name: string;
+  parameters: GenerationParameters;
+}
+
+export const DEFAULT_PROFILE = 'default';
+
+/** Profiles every model has - the config file can override or add to them */
+export const BUILT_IN_PROFILES: Record<string, GenerationParameters> = {
+  [DEFAULT_PROFILE]: {},
+  precise: { temperature: 0, seed: 42 },
+  creative: { temperature: 0.8, top_p: 0.95 },
+};
+
+/** Models key for profiles shared by every model */
+const ALL_MODELS = '*';
+
+interface ProfileFile {
+  /** Profiles by name, per model ("*" for all of them) */
+  models?: Record<string, Record<string, GenerationParameters>>;
+  /** The selected profile per model */
+  active?: Record<string, string>;
+}
+
+/**
+ * Reads profiles and remembers which one each model uses
+ */
+export class ParameterProfileStore {
+  private data: ProfileFile | null = null;
+
+  constructor(
+    private readonly filePath: string = path.join(os.homedir(), '.numidium', 'profiles.json')
+  ) {}
+
+  /**
+   * Every profile available to a model, by name
+   *
+   * Model-specific profiles override shared ones, which override the built-ins.
+   */
+  async list(model: string): Promise<Record<string, GenerationParameters>> {
+    const data = await this.load();
+    return {
+      ...BUILT_IN_PROFILES,
+      ...data.models?.[ALL_MODELS],
+      ...data.models?.[model]
+    };
+  }
+
+  /**
+   * The profile a model uses - the default when none was selected or the
+   * selected one has since been removed from the file
+   */
+  async getActive(model: string): Promise<ParameterProfile> {
+    const [data, profiles] = await Promise.all([this.load(), this.list(model)]);
+    const name = data.active?.[model];
+
+    return name && profiles[name]
+      ? { name, parameters: profiles[name] }
+      : { name: DEFAULT_PROFILE, parameters: profiles[DEFAULT_PROFILE] || {} };
+  }
+
+  /**
+   * Select a model's profile and save the choice
+   */
+  async setActive(model: string, name: string): Promise<ParameterProfile> {
+    const profiles = await this.list(model);
+    if (!profiles[name]) {
+      throw new Error(`No profile named "${name}" for ${model}. Available: ${Object.keys(profiles).join(', ')}`);
+    }
+
+    const data = await this.load();
+    data.active = { ...data.active, [model]: name };
+    await this.save();
+
+    return { name, parameters: profiles[name] };
+  }
+
+  /**
+   * Write the file back, keeping the user's profiles as they were
+   */
+  private async save(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+    } catch (error) {
+      // The choice still applies for this session
+      console.warn(`Failed to save parameter profiles to ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Read the file once - missing is fine, malformed is an error the user needs to see
+   */
+  private async load(): Promise<ProfileFile> {
+    if (this.data) {
+      return this.data;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      this.data = {};
+      return this.data;
+    }
+
+    try {
+      this.data = JSON.parse(content) as ProfileFile;
+    } catch (error) {
+      throw new Error(`Invalid parameter profiles in ${this.filePath}: ${getErrorMessage(error)}`);
+    }
+    return this.data;
+  }
+}
\ No newline at end of file
@@ -6,6 +6,7 @@
  */
 
 import { Content } from '../types.js';
+import { BackendModel } from '../interfaces.js';
 import { AiCliSession, SessionConfig } from './session.js';
 import { OllamaApiService, ApiRequest, ApiResponse } from '../api/ollamaApiService.js';
 import { ToolRegistry } from '../tools/geminiStyleTools.js';
@@ -48,7 +49,6 @@ export class ProfessionalSession extends AiCliSession {
   private toolRegistry: ToolRegistry;
   private routerService!: RouterToolService;
   private permissionHandler: ((request: any) => Promise<any>) | null = null;
-  private conversationContext: number[] = [];
 
   constructor(config: ProfessionalSessionConfig, baseDirectory: string = process.cwd()) {
     super(config);
@@ -63,7 +63,11 @@ export class ProfessionalSession extends AiCliSession {
     
     // Initialize API service
     this.apiService = await OllamaApiService.create({
-      host: config.ollamaHost || 'http://localhost:11434',
+      backend: config.backend?.type,
+      host: config.backend?.host || (config.backend?.type === 'openai' ? undefined : config.ollamaHost),
+      hosts: config.backend?.hosts,
+      apiKey: config.backend?.apiKey,
+      transport: config.backend?.transport,
       defaultModel: config.defaultModel,
       timeout: config.apiConfig?.timeout,
       retries: config.apiConfig?.retries,
@@ -84,7 +88,7 @@ export class ProfessionalSession extends AiCliSession {
       listModels: () => this.apiService.getAvailableModels(),
       generate: (req: any) => this.apiService.generateContent({
         model: req.model,
-        prompt: req.prompt,
+        contents: [{ role: 'user', parts: [{ text: req.prompt }] }],
         options: req.options
       })
     };
@@ -183,10 +187,11 @@ export class ProfessionalSession extends AiCliSession {
     stats: any;
   }> {
     const systemPrompt = this.createSystemPrompt();
+    // The user's message is already the last history entry
     const request = this.apiService.createConversationalRequest(
       userInput,
       systemPrompt,
-      this.conversationContext,
+      this.getHistory().slice(0, -1),
       {
         temperature: 0.8, // More creative for conversation
         num_predict: 500  // Reasonable limit for chat
@@ -194,7 +199,7 @@ export class ProfessionalSession extends AiCliSession {
     );
 
     const apiResponse = await this.apiService.generateContent(request);
-    this.conversationContext = apiResponse.context || [];
+    this.recordTokenUsage(apiResponse.prompt_eval_count, apiResponse.eval_count);
 
     const response = processAIResponse(apiResponse.response);
 
@@ -242,7 +247,7 @@ Respond naturally about what was accomplished. Be concise but informative.`;
     const request = this.apiService.createConversationalRequest(
       `Please summarize what was accomplished for: "${userInput}"`,
       systemPrompt,
-      this.conversationContext,
+      this.getHistory(),
       {
         temperature: 0.3, // More focused for summaries
         num_predict: 200  // Shorter for summaries
@@ -250,7 +255,7 @@ Respond naturally about what was accomplished. Be concise but informative.`;
     );
 
     const apiResponse = await this.apiService.generateContent(request);
-    this.conversationContext = apiResponse.context || [];
+    this.recordTokenUsage(apiResponse.prompt_eval_count, apiResponse.eval_count);
 
     return processAIResponse(apiResponse.response);
   }
@@ -334,11 +339,8 @@ IMPORTANT: Be natural and conversational. No hardcoded responses. Let your perso
    * Clear session history and context
    */
   clearHistory(): void {
-    const state = this.getState();
-    state.conversationHistory = [];
-    state.tokenCount = 0;
-    state.compactionCount = 0;
-    this.conversationContext = [];
+    // getState() hands out a copy, so reset through the base class
+    super.clearHistory();
   }
 
   /**
@@ -351,7 +353,7 @@ IMPORTANT: Be natural and conversational. No hardcoded responses. Let your perso
   /**
    * Get available models from API
    */
-  async getAvailableModels(): Promise<Array<{ name: string; size: number; modified_at: string }>> {
+  async getAvailableModels(): Promise<BackendModel[]> {
     return await this.apiService.getAvailableModels();
   }
 
@@ -6,11 +6,18 @@
  */
 
 import { Content } from '../types.js';
+import { BackendConfig } from '../interfaces.js';
 import { OllamaModelManager, LocalModel } from '../ollama/models.js';
+import { OllamaClient } from '../ollama/client.js';
+import { createLlmBackend } from '../api/backends.js';
 import { createOllamaContentGenerator } from '../ollama/contentGenerator.js';
+import { MESSAGE_OVERHEAD_TOKENS } from '../ollama/contextWindow.js';
+import { defaultTokenCalibrator } from '../ollama/tokenCalibration.js';
 
 export interface SessionConfig {
   ollamaHost: string;
+  /** Model server to use - Ollama at `ollamaHost` when unset */
+  backend?: BackendConfig;
   defaultModel: string;
   maxContextTokens: number;
   contextCompactionThreshold: number; // When to compact (e.g., 0.8 = 80% of max)
@@ -22,6 +29,18 @@ export interface SessionSettings {
   alwaysAllowShellCommands?: boolean;
   autoApproveLevel?: 'none' | 'read-only' | 'safe' | 'all';
   preferredModel?: string;
+  /** Show thinking models' reasoning above their replies (default true) */
+  showReasoning?: boolean;
+}
+
+export interface TokenUsage {
+  /** Prompt tokens Ollama evaluated, summed over every request */
+  promptTokens: number;
+  /** Tokens the model generated */
+  completionTokens: number;
+  totalTokens: number;
+  /** Model requests made */
+  requests: number;
 }
 
 export interface SessionState {
@@ -29,30 +48,41 @@ export interface SessionState {
   startTime: Date;
   lastActivity: Date;
   conversationHistory: Content[];
+  /** Tokens per history entry, aligned with conversationHistory */
+  messageTokens: number[];
   currentModel: string;
   settings: SessionSettings;
+  /** Current context size - what the next request will cost */
   tokenCount: number;
+  /** Real usage reported by Ollama over the whole session */
+  tokenUsage: TokenUsage;
   compactionCount: number;
 }
 
 export class AiCliSession {
   protected config: SessionConfig;
   private state: SessionState;
-  private modelManager: OllamaModelManager;
+  /** Null for backends other than Ollama, which can't describe their models */
+  private modelManager: OllamaModelManager | null;
   private contentGenerator: any;
+  /** Context size Ollama reported for the last request (prompt + reply) */
+  private lastReportedContext = 0;
 
   constructor(config: SessionConfig) {
     this.config = config;
-    this.modelManager = new OllamaModelManager();
+    const backend = createLlmBackend(config.backend || { type: 'ollama', host: config.ollamaHost });
+    this.modelManager = backend instanceof OllamaClient ? new OllamaModelManager(backend) : null;
     
     this.state = {
       id: this.generateSessionId(),
       startTime: new Date(),
       lastActivity: new Date(),
       conversationHistory: [],
+      messageTokens: [],
       currentModel: config.defaultModel,
       settings: {},
       tokenCount: 0,
+      tokenUsage: this.createEmptyUsage(),
       compactionCount: 0
     };
 
@@ -61,13 +91,16 @@ export class AiCliSession {
 
   /**
    * Add a message to the conversation history
+   *
+   * Pass `tokenCount` when Ollama reported it (eval_count for a reply);
+   * otherwise it's estimated with the model's calibrated ratio.
    */
-  async addMessage(content: Content): Promise<void> {
+  async addMessage(content: Content, tokenCount?: number): Promise<void> {
     this.state.conversationHistory.push(content);
+    this.state.messageTokens.push(tokenCount ?? this.estimateMessageTokens(content));
     this.state.lastActivity = new Date();
     
-    // Estimate token count
-    this.state.tokenCount = await this.estimateTokenCount();
+    this.state.tokenCount = this.calculateTokenCount();
     
     // Check if we need to compact
     if (this.shouldCompactContext()) {
@@ -86,19 +119,23 @@ export class AiCliSession {
    * Switch to a different model
    */
   async switchModel(modelName: string): Promise<boolean> {
-    const model = await this.modelManager.getModel(modelName);
-    if (!model) {
-      return false;
+    let displayName = modelName;
+    if (this.modelManager) {
+      const model = await this.modelManager.getModel(modelName);
+      if (!model) {
+        return false;
+      }
+      displayName = model.displayName;
+      this.config.maxContextTokens = model.capabilities.maxContextLength;
     }
 
     this.state.currentModel = modelName;
-    this.config.maxContextTokens = model.capabilities.maxContextLength;
     this.initializeContentGenerator();
     
     // Add system message about model switch
     await this.addMessage({
       role: 'model',
-      parts: [{ text: `[Switched to model: ${model.displayName}]` }]
+      parts: [{ text: `[Switched to model: ${displayName}]` }]
     });
 
     return true;
@@ -123,8 +160,26 @@ export class AiCliSession {
    */
   clearHistory(): void {
     this.state.conversationHistory = [];
+    this.state.messageTokens = [];
     this.state.tokenCount = 0;
     this.state.compactionCount = 0;
+    this.lastReportedContext = 0;
+  }
+
+  /**
+   * Record the token counts Ollama reported for one request
+   */
+  protected recordTokenUsage(promptTokens: number = 0, completionTokens: number = 0): void {
+    const usage = this.state.tokenUsage;
+    this.state.tokenUsage = {
+      promptTokens: usage.promptTokens + promptTokens,
+      completionTokens: usage.completionTokens + completionTokens,
+      totalTokens: usage.totalTokens + promptTokens + completionTokens,
+      requests: usage.requests + 1
+    };
+
+    this.lastReportedContext = promptTokens + completionTokens;
+    this.state.tokenCount = this.calculateTokenCount();
   }
 
   /**
@@ -141,6 +196,7 @@ export class AiCliSession {
       const response = await this.contentGenerator.generateContent({
         contents: this.state.conversationHistory
       }, `session-${this.state.id}-${Date.now()}`);
+      this.recordTokenUsage(response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount);
 
       if (response.candidates?.[0]?.content?.parts?.[0]?.text) {
         const aiResponse = response.candidates[0].content.parts[0].text;
@@ -149,7 +205,7 @@ export class AiCliSession {
         await this.addMessage({
           role: 'model',
           parts: [{ text: aiResponse }]
-        });
+        }, response.usageMetadata?.candidatesTokenCount || undefined);
 
         return aiResponse;
       }
@@ -188,6 +244,7 @@ export class AiCliSession {
     // Create a summary of older messages
     const messagesToSummarize = this.state.conversationHistory.slice(0, -4); // Keep last 4 messages
     const recentMessages = this.state.conversationHistory.slice(-4);
+    const recentTokens = this.state.messageTokens.slice(-4);
 
     if (messagesToSummarize.length > 0) {
       try {
@@ -199,26 +256,32 @@ export class AiCliSession {
             parts: [{ text: summaryPrompt }]
           }]
         }, `summary-${this.state.id}-${Date.now()}`);
+        this.recordTokenUsage(
+          summaryResponse.usageMetadata?.promptTokenCount,
+          summaryResponse.usageMetadata?.candidatesTokenCount
+        );
 
         if (summaryResponse.candidates?.[0]?.content?.parts?.[0]?.text) {
           const summary = summaryResponse.candidates[0].content.parts[0].text;
+          const summaryContent: Content = {
+            role: 'model',
+            parts: [{ text: `[Previous conversation summary: ${summary}]` }]
+          };
           
           // Replace old messages with summary
-          this.state.conversationHistory = [
-            {
-              role: 'model',
-              parts: [{ text: `[Previous conversation summary: ${summary}]` }]
-            },
-            ...recentMessages
-          ];
+          this.state.conversationHistory = [summaryContent, ...recentMessages];
+          this.state.messageTokens = [this.estimateMessageTokens(summaryContent), ...recentTokens];
 
           this.state.compactionCount++;
-          this.state.tokenCount = await this.estimateTokenCount();
+          this.lastReportedContext = 0;
+          this.state.tokenCount = this.calculateTokenCount();
         }
       } catch (error) {
         // If summarization fails, just truncate
         this.state.conversationHistory = recentMessages;
-        this.state.tokenCount = await this.estimateTokenCount();
+        this.state.messageTokens = recentTokens;
+        this.lastReportedContext = 0;
+        this.state.tokenCount = this.calculateTokenCount();
       }
     }
   }
@@ -239,25 +302,33 @@ Summary:`;
   }
 
   /**
-   * Estimate token count for current conversation
+   * Current context size: per-message counts, or what Ollama last
+   * reported if that's larger (it includes the system prompt and tools)
    */
-  private async estimateTokenCount(): Promise<number> {
-    if (!this.contentGenerator) return 0;
-    
-    try {
-      const response = await this.contentGenerator.countTokens({
-        contents: this.state.conversationHistory
-      });
-      return response.totalTokens;
-    } catch (error) {
-      // Fallback estimation: ~3.5 chars per token
-      const totalChars = this.state.conversationHistory
-        .flatMap(msg => msg.parts)
-        .map(part => part.text || '')
-        .join('').length;
-      
-      return Math.ceil(totalChars / 3.5);
-    }
+  private calculateTokenCount(): number {
+    const historyTokens = this.state.messageTokens.reduce((total, tokens) => total + tokens, 0);
+    return Math.max(historyTokens, this.lastReportedContext);
+  }
+
+  /**
+   * Estimate one message's tokens with the current model's calibrated ratio
+   */
+  private estimateMessageTokens(content: Content): number {
+    const text = content.parts
+      .map(part => part.text
+        || (part.functionCall && JSON.stringify(part.functionCall))
+        || (part.functionResponse && JSON.stringify(part.functionResponse))
+        || '')
+      .join('');
+
+    return MESSAGE_OVERHEAD_TOKENS + defaultTokenCalibrator.estimate(this.state.currentModel, text);
+  }
+
+  /**
+   * Zeroed usage totals for a new session
+   */
+  private createEmptyUsage(): TokenUsage {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0, requests: 0 };
   }
 
   /**
@@ -266,7 +337,8 @@ Summary:`;
   private initializeContentGenerator(): void {
     this.contentGenerator = createOllamaContentGenerator({
       model: this.state.currentModel,
-      ollamaHost: this.config.ollamaHost
+      ollamaHost: this.config.ollamaHost,
+      backend: this.config.backend
     });
   }
 
@@ -6,13 +6,24 @@
  * Inspired by Gemini CLI because they got it right the first time.
  */
 
-import { Content } from '../types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Content, Part } from '../types.js';
+import { BackendKind, BackendModel } from '../interfaces.js';
 import { AiCliSession, SessionConfig } from './session.js';
-import { OllamaApiService, ApiRequest, ApiResponse, FunctionCall } from '../api/ollamaApiService.js';
+import { OllamaApiService, ApiRequest, ApiResponse, FunctionCall, TextStreamHandler } from '../api/ollamaApiService.js';
 import { ToolRegistry, StructuredTool, ToolResult, ToolCallConfirmationDetails } from '../tools/toolRegistry.js';
+import { SemanticSearchTool } from '../tools/semanticSearch.js';
 import { ToolOrchestrator, ToolExecutionContext, ToolExecutionResult as OrchestratorResult } from '../tools/toolOrchestrator.js';
-import { processAIResponse } from '../utils/responseFilter.js';
-import { createSystemMessage } from '../prompts/system.js';
+import { isAbortError, OllamaPullProgress, OllamaKeepAlive, OllamaRunningModel } from '../ollama/client.js';
+import { ToolCallAdapter } from '../ollama/toolCallAdapters.js';
+import { ModelfileParameters, ModelfileSpec, renderModelfile, toCreateRequest } from '../ollama/modelfile.js';
+import { ProjectContextAnalyzer } from '../analysis/projectContext.js';
+import { ParameterProfileStore, ParameterProfile } from './parameterProfiles.js';
+import { CheckpointStore, Checkpoint, RestoreResult, setCheckpointStore } from '../operations/checkpoints.js';
+import { processAIResponse, extractReasoning } from '../utils/responseFilter.js';
+import { extractImageAttachments } from '../utils/images.js';
+import { createSystemMessage, createProjectSystemPrompt } from '../prompts/system.js';
 
 export interface StructuredSessionConfig extends SessionConfig {
   /** API service configuration */
@@ -20,6 +31,10 @@ export interface StructuredSessionConfig extends SessionConfig {
     temperature?: number;
     timeout?: number;
     retries?: number;
+    /** Embedding model, independent of the chat model */
+    embeddingModel?: string;
+    /** How long the model stays loaded between requests, e.g. '30m' */
+    keepAlive?: OllamaKeepAlive;
   };
   /** Tool execution configuration */
   toolConfig?: {
@@ -35,7 +50,15 @@ export interface StructuredSessionResponse {
     model: string;
     responseTime: number;
     tokenCount?: number;
+    /** The parameter profile the replies were generated with */
+    profile?: string;
   };
+  /** What a thinking model reasoned before answering, kept apart from the reply */
+  reasoning?: string;
+  /** Things the user should know about, e.g. the context window filling up */
+  warnings?: string[];
+  /** The user cancelled the turn before it finished */
+  cancelled?: boolean;
 }
 
 export interface ToolExecutionResult {
@@ -54,12 +77,14 @@ export class StructuredSession extends AiCliSession {
   private toolRegistry: ToolRegistry;
   private toolOrchestrator: ToolOrchestrator;
   private permissionHandler: ((request: ToolCallConfirmationDetails) => Promise<boolean>) | null = null;
-  private conversationContext: number[] = [];
+  private parameterProfiles = new ParameterProfileStore();
+  private checkpoints: CheckpointStore;
 
   constructor(config: StructuredSessionConfig, baseDirectory: string = process.cwd()) {
     super(config);
     this.toolRegistry = new ToolRegistry();
     this.toolOrchestrator = new ToolOrchestrator(this.toolRegistry);
+    this.checkpoints = new CheckpointStore(path.join(baseDirectory, '.numidium', 'checkpoints'));
   }
 
   /**
@@ -69,14 +94,31 @@ export class StructuredSession extends AiCliSession {
     const config = this.config as StructuredSessionConfig;
 
     // Initialize API service
+    // A configured backend brings its own host; Ollama falls back to ollamaHost
+    const backend = config.backend?.type || 'ollama';
     this.apiService = await OllamaApiService.create({
-      host: config.ollamaHost || 'http://localhost:11434',
+      backend,
+      host: config.backend?.host || (backend === 'ollama' ? config.ollamaHost : undefined),
+      hosts: config.backend?.hosts,
+      apiKey: config.backend?.apiKey,
+      transport: config.backend?.transport,
       defaultModel: config.defaultModel,
       timeout: config.apiConfig?.timeout,
       retries: config.apiConfig?.retries,
-      temperature: config.apiConfig?.temperature
+      temperature: config.apiConfig?.temperature,
+      embeddingModel: config.apiConfig?.embeddingModel,
+      keepAlive: config.apiConfig?.keepAlive
     });
 
+    // semantic_search embeds with the same host and model as the session
+    SemanticSearchTool.configure(
+      (texts, signal) => this.apiService.embed(texts, signal),
+      this.apiService.getEmbeddingModel()
+    );
+
+    // Tools checkpoint files into this session's store before changing them
+    setCheckpointStore(this.checkpoints);
+
     // Update session state with the actual model being used (after fallback)
     const actualModel = this.apiService.getConfig().defaultModel;
     if (actualModel && actualModel !== this.getState().currentModel) {
@@ -85,6 +127,28 @@ export class StructuredSession extends AiCliSession {
       // Access private state to update currentModel directly
       (this as any).state.currentModel = actualModel;
     }
+
+    await this.syncContextLimit();
+    this.preloadModel(this.getState().currentModel);
+  }
+
+  /**
+   * Start loading a model in the background so the first message doesn't wait for it
+   */
+  private preloadModel(modelName: string): void {
+    this.apiService.preloadModel(modelName).catch(error => {
+      console.warn(`Failed to preload ${modelName}:`, error);
+    });
+  }
+
+  /**
+   * Compact against the model's real context window, not the configured guess
+   */
+  private async syncContextLimit(): Promise<void> {
+    const capabilities = await this.apiService.getModelCapabilities();
+    if (capabilities) {
+      this.config.maxContextTokens = capabilities.maxContextLength;
+    }
   }
 
   /**
@@ -99,24 +163,34 @@ export class StructuredSession extends AiCliSession {
   /**
    * Generate response with intelligent tool calling (new enhanced version)
    */
-  async generateResponseWithIntelligentTools(userInput: string): Promise<StructuredSessionResponse> {
+  async generateResponseWithIntelligentTools(
+    userInput: string,
+    signal?: AbortSignal,
+    onText?: TextStreamHandler,
+    onThinking?: TextStreamHandler
+  ): Promise<StructuredSessionResponse> {
     if (!this.apiService) {
       await this.initialize();
     }
 
     const startTime = performance.now();
+    const userContent = await this.createUserContent(userInput);
+    this.checkpoints.beginTurn(userInput);
 
     // Add user message to conversation
-    await this.addMessage({
-      role: 'user',
-      parts: [{ text: userInput }]
-    });
+    await this.addMessage(userContent);
+
+    // Intent detection can't see images, so attachments go straight to the model
+    if (userContent.parts.some(part => part.inlineData)) {
+      return this.runFunctionCallingLoop(userInput, startTime, signal, onText, onThinking);
+    }
 
     // Create execution context
     const context: ToolExecutionContext = {
       userInput,
       workingDirectory: process.cwd(),
       availableTools: this.toolRegistry.getAllTools().map(t => t.name),
+      signal,
       conversationHistory: this.getState().conversationHistory.slice(-5).map(h =>
         h.parts.map(p => p.text || '[non-text]').join('')
       )
@@ -151,103 +225,167 @@ export class StructuredSession extends AiCliSession {
       };
     }
 
+    if (signal?.aborted) {
+      return this.createCancelledResponse([], startTime);
+    }
+
     // Fallback to LLM-based approach if automatic detection failed
-    return this.generateResponseWithTools(userInput);
+    // (the user message is already in history, so go straight to the loop)
+    return this.runFunctionCallingLoop(userInput, startTime, signal, onText, onThinking);
   }
 
   /**
    * Generate response with structured function calling (legacy method)
    */
-  async generateResponseWithTools(userInput: string): Promise<StructuredSessionResponse> {
+  async generateResponseWithTools(
+    userInput: string,
+    signal?: AbortSignal,
+    onText?: TextStreamHandler,
+    onThinking?: TextStreamHandler
+  ): Promise<StructuredSessionResponse> {
     if (!this.apiService) {
       await this.initialize();
     }
 
     const startTime = performance.now();
+    this.checkpoints.beginTurn(userInput);
 
     // Add user message to conversation
-    await this.addMessage({
-      role: 'user',
-      parts: [{ text: userInput }]
-    });
+    await this.addMessage(await this.createUserContent(userInput));
 
+    return this.runFunctionCallingLoop(userInput, startTime, signal, onText, onThinking);
+  }
+
+  /**
+   * Run the model/tool loop against the current history
+   *
+   * With `onText`, each model reply is streamed as it's generated; replies
+   * after a tool call continue the same stream after a blank line.
+   * Reasoning from every reply in the turn is collected into `reasoning`.
+   */
+  private async runFunctionCallingLoop(
+    userInput: string,
+    startTime: number,
+    signal?: AbortSignal,
+    onText?: TextStreamHandler,
+    onThinking?: TextStreamHandler
+  ): Promise<StructuredSessionResponse> {
     // Create system prompt with tool awareness
     const systemPrompt = this.createSystemPrompt();
     
     // Get function declarations for available tools
     const functionDeclarations = this.toolRegistry.getFunctionDeclarations();
+    const profile = await this.parameterProfiles.getActive(this.getState().currentModel);
 
     // Create API request with function calling support
     const request: ApiRequest = {
       model: this.getState().currentModel,
-      prompt: userInput,
+      contents: this.getHistory(),
       system: systemPrompt,
-      context: this.conversationContext,
       functions: functionDeclarations,
-      options: {
-        temperature: 0.1,
-        num_predict: 500
-      }
+      options: { ...profile.parameters }
     };
 
     const toolExecutions: ToolExecutionResult[] = [];
+    const warnings = new Set<string>();
+    const reasoning: string[] = [];
     let finalResponse = '';
+    let finalResponseTokens: number | undefined;
+    let tokenCount = 0;
     let attempts = 0;
     const maxAttempts = 5; // Prevent infinite loops
 
+    let streamedText = false;
+    let replyText = false;
+    const streamHandler: TextStreamHandler | undefined = onText && (text => {
+      if (!replyText && streamedText) {
+        onText('\n\n');
+      }
+      replyText = streamedText = true;
+      onText(text);
+    });
+
     // Main conversation loop with function calling
     while (attempts < maxAttempts) {
       attempts++;
-      
-      const apiResponse = await this.apiService.generateContent(request);
-      this.conversationContext = apiResponse.context || [];
+      replyText = false;
+
+      let apiResponse: ApiResponse;
+      try {
+        apiResponse = await this.apiService.generateContent(request, signal, streamHandler, onThinking);
+      } catch (error) {
+        if (isAbortError(error)) {
+          return this.createCancelledResponse(toolExecutions, startTime);
+        }
+        throw error;
+      }
+
+      tokenCount = (apiResponse.prompt_eval_count || 0) + (apiResponse.eval_count || 0);
+      this.recordTokenUsage(apiResponse.prompt_eval_count, apiResponse.eval_count);
+      if (apiResponse.context_warning) {
+        warnings.add(apiResponse.context_warning);
+      }
 
-      // Check if AI made a function call
-      if (apiResponse.function_call) {
-        const toolExecution = await this.executeFunctionCall(apiResponse.function_call);
-        toolExecutions.push(toolExecution);
+      // Models without the think option reason inline in <think> tags
+      const separated = extractReasoning(apiResponse.response);
+      reasoning.push(...[apiResponse.thinking?.trim(), separated.reasoning].filter((text): text is string => !!text));
 
-        // Add function call and result to conversation context
+      // Check if AI made function calls (a reply may carry several)
+      const functionCalls = apiResponse.function_calls
+        || (apiResponse.function_call ? [apiResponse.function_call] : []);
+
+      if (functionCalls.length > 0) {
+        const visionSupported = await this.supportsVision();
+        const executions: ToolExecutionResult[] = [];
+        for (const functionCall of functionCalls) {
+          if (signal?.aborted) break;
+          executions.push(await this.executeFunctionCall(functionCall, signal));
+        }
+        toolExecutions.push(...executions);
+
+        // Add function calls and results to conversation context
         await this.addMessage({
           role: 'model',
-          parts: [{ 
+          // Calls skipped by a cancel never ran, so they have no result to pair with
+          parts: functionCalls.slice(0, executions.length).map(functionCall => ({
             functionCall: {
-              name: apiResponse.function_call.name,
-              args: apiResponse.function_call.arguments
+              name: functionCall.name,
+              args: functionCall.arguments
             }
-          }]
+          }))
         });
 
         await this.addMessage({
           role: 'function',
-          parts: [{ 
-            functionResponse: {
-              name: apiResponse.function_call.name,
-              response: {
-                content: toolExecution.result.content,
-                success: toolExecution.result.success
-              }
-            }
-          }]
+          parts: executions.flatMap(execution => this.createFunctionResponseParts(execution, visionSupported))
         });
 
-        // Continue conversation with function result
-        const followupPrompt = toolExecution.result.success
-          ? `User request: "${userInput}"
+        // Continue conversation with function results
+        const followupPrompt = `User request: "${userInput}"
 
-The ${apiResponse.function_call.name} function was executed successfully and returned:
-${toolExecution.result.content}
+${executions.map(execution => this.describeExecution(execution)).join('\n\n')}
 
-Please provide a helpful response to the user based on their original request and the data you now have access to.`
-          : `The ${apiResponse.function_call.name} function failed with error: ${toolExecution.result.error}. Please help the user understand what went wrong and suggest next steps.`;
+Please provide a helpful response to the user based on their original request and the data you now have access to. If anything failed, help them understand what went wrong and suggest next steps.`;
 
-        request.prompt = followupPrompt;
+        // Native tool models read the result from the tool message itself;
+        // the prompt protocol gets the result restated as a one-off user turn
+        request.contents = this.apiService.supportsNativeTools(request.model)
+          ? this.getHistory()
+          : [...this.getHistory(), { role: 'user', parts: [{ text: followupPrompt }] }];
         request.functions = []; // Remove functions for follow-up to get natural response
+
+        if (signal?.aborted) {
+          return this.createCancelledResponse(toolExecutions, startTime);
+        }
         
         continue;
       } else {
         // AI provided a natural language response
-        finalResponse = processAIResponse(apiResponse.response);
+        finalResponse = processAIResponse(separated.content);
+        // eval_count is exact only if filtering left the reply untouched
+        if (finalResponse === apiResponse.response) {
+          finalResponseTokens = apiResponse.eval_count;
+        }
         break;
       }
     }
@@ -257,7 +395,7 @@ Please provide a helpful response to the user based on their original request an
       await this.addMessage({
         role: 'model',
         parts: [{ text: finalResponse }]
-      });
+      }, finalResponseTokens);
     }
 
     const responseTime = performance.now() - startTime;
@@ -268,15 +406,41 @@ Please provide a helpful response to the user based on their original request an
       modelStats: {
         model: this.getState().currentModel,
         responseTime,
-        tokenCount: this.conversationContext.length
-      }
+        tokenCount,
+        profile: profile.name
+      },
+      ...(reasoning.length > 0 ? { reasoning: reasoning.join('\n\n') } : {}),
+      ...(warnings.size > 0 ? { warnings: [...warnings] } : {})
+    };
+  }
+
+  /**
+   * Close a cancelled turn so the history still alternates user/model
+   */
+  private async createCancelledResponse(
+    toolExecutions: ToolExecutionResult[],
+    startTime: number
+  ): Promise<StructuredSessionResponse> {
+    await this.addMessage({
+      role: 'model',
+      parts: [{ text: '[Response cancelled by user]' }]
+    });
+
+    return {
+      response: '',
+      toolExecutions,
+      modelStats: {
+        model: this.getState().currentModel,
+        responseTime: performance.now() - startTime
+      },
+      cancelled: true
     };
   }
 
   /**
    * Execute a function call with proper validation and confirmation
    */
-  private async executeFunctionCall(functionCall: FunctionCall): Promise<ToolExecutionResult> {
+  private async executeFunctionCall(functionCall: FunctionCall, signal?: AbortSignal): Promise<ToolExecutionResult> {
     const startTime = performance.now();
     
     try {
@@ -284,7 +448,8 @@ Please provide a helpful response to the user based on their original request an
       const result = await this.toolRegistry.executeToolCall(
         functionCall.name,
         functionCall.arguments,
-        this.permissionHandler || undefined
+        this.permissionHandler || undefined,
+        signal
       );
 
       const executionTime = performance.now() - startTime;
@@ -315,6 +480,72 @@ Please provide a helpful response to the user based on their original request an
     }
   }
 
+  /**
+   * Build the user turn, loading any `@path/to/image.png` attachments
+   */
+  private async createUserContent(userInput: string): Promise<Content> {
+    const attachments = await extractImageAttachments(userInput, process.cwd());
+
+    if (attachments.images.length > 0 && !(await this.supportsVision())) {
+      throw new Error(`${this.getState().currentModel} can't see images. Switch to a vision model such as llava or llama3.2-vision to attach them.`);
+    }
+
+    return {
+      role: 'user',
+      parts: [
+        { text: attachments.text },
+        ...attachments.images.map(image => ({ inlineData: image }))
+      ]
+    };
+  }
+
+  /**
+   * A tool result, followed by any images it returned if the model can see them
+   */
+  private createFunctionResponseParts(execution: ToolExecutionResult, visionSupported: boolean): Part[] {
+    const images = execution.result.images || [];
+    if (images.length > 0 && !visionSupported) {
+      execution.result = {
+        ...execution.result,
+        content: `${execution.result.content}
+(Not shown: ${this.getState().currentModel} has no vision support)`,
+        images: undefined
+      };
+    }
+
+    return [
+      {
+        functionResponse: {
+          name: execution.toolName,
+          response: {
+            content: execution.result.content,
+            success: execution.result.success
+          }
+        }
+      },
+      ...(visionSupported ? images.map(image => ({ inlineData: image })) : [])
+    ];
+  }
+
+  /**
+   * Whether the current model accepts images
+   *
+   * Only Ollama reports capabilities; other servers reject images themselves.
+   */
+  private async supportsVision(): Promise<boolean> {
+    const capabilities = await this.apiService.getModelCapabilities(this.getState().currentModel);
+    return capabilities ? capabilities.supportsVision : true;
+  }
+
+  /**
+   * Describe one tool execution for the prompt-protocol follow-up turn
+   */
+  private describeExecution(execution: ToolExecutionResult): string {
+    return execution.result.success
+      ? `The ${execution.toolName} function was executed successfully and returned:\n${execution.result.content}`
+      : `The ${execution.toolName} function failed with error: ${execution.result.error}.`;
+  }
+
   /**
    * Create system prompt with tool awareness
    */
@@ -370,12 +601,115 @@ Be natural and conversational while being precise with function calls when neede
         throw new Error(`Failed to update session model to: ${modelName}`);
       }
       
+      this.preloadModel(modelName);
       return true;
     } catch (error) {
       throw new Error(`Model switching failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Models currently loaded in Ollama's memory
+   */
+  async getRunningModels(): Promise<OllamaRunningModel[]> {
+    return await this.apiService.getRunningModels();
+  }
+
+  /**
+   * Embed texts with the configured embedding model
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    return await this.apiService.embed(texts, signal);
+  }
+
+  /**
+   * Pull a model from the registry, yielding download progress
+   */
+  pullModel(modelName: string, signal?: AbortSignal): AsyncGenerator<OllamaPullProgress> {
+    return this.apiService.pullModel(modelName, signal);
+  }
+
+  /**
+   * The parameter profile the current model generates with
+   */
+  async getParameterProfile(): Promise<ParameterProfile> {
+    return await this.parameterProfiles.getActive(this.getState().currentModel);
+  }
+
+  /**
+   * Names of every profile the current model can use
+   */
+  async listParameterProfiles(): Promise<string[]> {
+    return Object.keys(await this.parameterProfiles.list(this.getState().currentModel));
+  }
+
+  /**
+   * Switch the current model's profile, from the next request on - remembered across sessions
+   */
+  async setParameterProfile(name: string): Promise<ParameterProfile> {
+    return await this.parameterProfiles.setActive(this.getState().currentModel, name);
+  }
+
+  /**
+   * Turns that changed files, newest first
+   */
+  async listCheckpoints(): Promise<Checkpoint[]> {
+    return await this.checkpoints.list();
+  }
+
+  /**
+   * Put back the files the most recent file-changing turn touched
+   */
+  async undoLastTurn(): Promise<RestoreResult> {
+    return await this.checkpoints.undo();
+  }
+
+  /**
+   * Put files back as they were before a turn, undoing it and every turn since
+   */
+  async rewindTo(checkpointId: string): Promise<RestoreResult> {
+    return await this.checkpoints.rewind(checkpointId);
+  }
+
+  /**
+   * Create a project-specific model from an installed one, yielding build progress
+   *
+   * The system prompt is the core prompt plus an analysis of the working
+   * directory. The Modelfile is also saved under .numidium/modelfiles/ so
+   * the model can be rebuilt with `ollama create -f`.
+   */
+  async* createModel(
+    modelName: string,
+    baseModel: string,
+    parameters: ModelfileParameters = {},
+    signal?: AbortSignal
+  ): AsyncGenerator<OllamaPullProgress> {
+    yield { status: 'analyzing project' };
+    const context = await new ProjectContextAnalyzer().analyzeProject(process.cwd());
+    const spec: ModelfileSpec = { from: baseModel, system: createProjectSystemPrompt(context), parameters };
+
+    const modelfilePath = path.join(process.cwd(), '.numidium', 'modelfiles', `${modelName.replace(/[^\w.-]+/g, '_')}.Modelfile`);
+    await fs.mkdir(path.dirname(modelfilePath), { recursive: true });
+    await fs.writeFile(modelfilePath, renderModelfile(spec));
+    yield { status: `wrote ${path.relative(process.cwd(), modelfilePath)}` };
+
+    yield* this.apiService.createModel(toCreateRequest(modelName, spec), signal);
+  }
+
+  /**
+   * Copy a model under another name, e.g. a short alias
+   */
+  async copyModel(source: string, destination: string): Promise<void> {
+    await this.apiService.copyModel(source, destination);
+  }
+
+  /**
+   * Delete an installed model (never the one in use)
+   */
+  async deleteModel(modelName: string): Promise<void> {
+    await this.apiService.deleteModel(modelName);
+  }
+
   /**
    * Get current model
    */
@@ -383,15 +717,19 @@ Be natural and conversational while being precise with function calls when neede
     return this.getState().currentModel;
   }
 
+  /**
+   * Get the tool-call format used for the current model's prompt protocol
+   */
+  getToolCallAdapter(): ToolCallAdapter {
+    return this.apiService.getToolCallAdapter();
+  }
+
   /**
    * Clear session history and context
    */
   clearHistory(): void {
-    const state = this.getState();
-    state.conversationHistory = [];
-    state.tokenCount = 0;
-    state.compactionCount = 0;
-    this.conversationContext = [];
+    // getState() hands out a copy, so reset through the base class
+    super.clearHistory();
   }
 
   /**
@@ -404,10 +742,24 @@ Be natural and conversational while being precise with function calls when neede
   /**
    * Get available models from API
    */
-  async getAvailableModels(): Promise<Array<{ name: string; size: number; modified_at: string }>> {
+  async getAvailableModels(): Promise<BackendModel[]> {
     return await this.apiService.getAvailableModels();
   }
 
+  /**
+   * Which kind of model server the session talks to
+   */
+  getBackendKind(): BackendKind {
+    return this.apiService.getBackendKind();
+  }
+
+  /**
+   * The server chat requests are going to
+   */
+  getActiveHost(): string {
+    return this.apiService.getActiveHost();
+  }
+
   /**
    * Factory method for creating structured session
    */
@@ -0,0 +1,236 @@
+/**
+ * Patch applier - a coordinated change across files as one unified diff
+ *
+ * The model proposes the whole change at once - edits, new files,
+ * deletions and renames - and the user reviews it as a unit. Every hunk
+ * is checked against the files as they are now before anything is
+ * written, and if writing fails part-way the files are put back.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ToolResult, ToolCallConfirmationDetails } from './toolRegistry.js';
+import { parseUnifiedDiff, applyHunks, FilePatch } from '../utils/diff.js';
+import { FileOperation, applyFileOperations } from '../operations/multiFileOperations.js';
+
+export interface ApplyPatchParams {
+  /** A unified diff, one or more files */
+  patch: string;
+}
+
+const PREVIEW_LINES = 60;
+
+/**
+ * Apply Patch Tool following Gemini CLI patterns
+ */
+export class ApplyPatchTool {
+  static readonly name = 'apply_patch';
+  static readonly displayName = 'Apply Patch';
+  static readonly description = 'Applies a unified diff that can change, create, delete and rename several files at once';
+
+  /**
+   * JSON Schema for function calling
+   */
+  static readonly schema = {
+    name: 'apply_patch',
+    description: 'Applies a unified diff (the format of `git diff` or `diff -u`) touching one or more files. Use --- /dev/null for new files, +++ /dev/null for deletions, and git\'s "rename from"/"rename to" lines for renames. Hunks need a few lines of unchanged context copied exactly from the current files. Nothing is changed unless every hunk applies.',
+    parameters: {
+      type: 'object',
+      properties: {
+        patch: {
+          type: 'string',
+          description: 'The unified diff, with ---/+++ file headers and @@ hunks. Paths are relative to the working directory.'
+        }
+      },
+      required: ['patch']
+    }
+  };
+
+  /**
+   * Validate parameters
+   */
+  static validateParams(params: ApplyPatchParams): string | null {
+    if (!params.patch || typeof params.patch !== 'string') {
+      return 'Missing or empty "patch"';
+    }
+    try {
+      parseUnifiedDiff(params.patch);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    return null;
+  }
+
+  /**
+   * Check if tool execution should be confirmed
+   */
+  static async shouldConfirmExecute(params: ApplyPatchParams): Promise<ToolCallConfirmationDetails | false> {
+    const patches = parseUnifiedDiff(params.patch);
+    const patchLines = params.patch.split('\n');
+    const shownPatch = patchLines.slice(0, PREVIEW_LINES).join('\n') +
+      (patchLines.length > PREVIEW_LINES ? `\n... ${patchLines.length - PREVIEW_LINES} more lines` : '');
+
+    return {
+      toolName: this.displayName,
+      params,
+      description: `Apply patch to ${patches.length} ${patches.length === 1 ? 'file' : 'files'}`,
+      risk: this.assessRisk(patches),
+      preview: `${patches.map(describePatch).join('\n')}\n\n${shownPatch}`
+    };
+  }
+
+  /**
+   * Execute the tool
+   */
+  static async execute(params: ApplyPatchParams): Promise<ToolResult> {
+    try {
+      // Validate parameters
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        return {
+          success: false,
+          content: validationError,
+          displayResult: `❌ Validation failed: ${validationError}`,
+          error: validationError
+        };
+      }
+
+      const patches = parseUnifiedDiff(params.patch);
+      const operations = await this.planOperations(patches);
+      await applyFileOperations(operations);
+
+      const summary = patches.map(describePatch).join('\n');
+      return {
+        success: true,
+        content: `Patch applied:\n${summary}`,
+        displayResult: `✅ Patched ${patches.length} ${patches.length === 1 ? 'file' : 'files'}:\n${summary}`
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        content: `Patch not applied - no files were changed:\n${errorMessage}`,
+        displayResult: `❌ Patch failed: ${errorMessage}`,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Work out every file's new content, checking all of them before any is written
+   *
+   * Problems are collected across files so the model can fix them in one go.
+   */
+  private static async planOperations(patches: FilePatch[]): Promise<FileOperation[]> {
+    const operations: FileOperation[] = [];
+    const problems: string[] = [];
+    const touched = new Set<string>();
+
+    for (const patch of patches) {
+      const label = (patch.newPath ?? patch.oldPath)!;
+      const oldPath = patch.oldPath && resolvePath(patch.oldPath);
+      const newPath = patch.newPath && resolvePath(patch.newPath);
+
+      const paths = [...new Set([oldPath, newPath].filter((p): p is string => !!p))];
+      const repeated = paths.find(p => touched.has(p));
+      if (repeated) {
+        problems.push(`${label}: ${path.relative(process.cwd(), repeated)} is changed more than once - combine its hunks`);
+        continue;
+      }
+      paths.forEach(p => touched.add(p));
+
+      try {
+        const current = oldPath ? await readExisting(oldPath) : null;
+
+        if (!oldPath) {
+          if (await readExisting(newPath!) !== null) {
+            throw new Error('already exists - patch it instead of creating it');
+          }
+          operations.push({ type: 'create', filePath: newPath!, content: applyHunks(null, patch.hunks), purpose: `Create ${label}` });
+          continue;
+        }
+
+        if (current === null) {
+          throw new Error('not found');
+        }
+
+        if (!newPath) {
+          if (patch.hunks.length > 0 && applyHunks(current, patch.hunks) !== '') {
+            throw new Error('the deletion doesn\'t remove every line - the file has changed');
+          }
+          operations.push({ type: 'delete', filePath: oldPath, purpose: `Delete ${label}` });
+          continue;
+        }
+
+        const content = patch.hunks.length > 0 ? applyHunks(current, patch.hunks) : undefined;
+        if (newPath !== oldPath) {
+          if (await readExisting(newPath) !== null) {
+            throw new Error(`can't rename onto ${patch.newPath}, which already exists`);
+          }
+          operations.push({ type: 'move', filePath: newPath, originalPath: oldPath, content, purpose: `Rename ${patch.oldPath} to ${label}` });
+        } else if (content !== undefined) {
+          operations.push({ type: 'update', filePath: newPath, content, purpose: `Update ${label}` });
+        }
+      } catch (error) {
+        problems.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(problems.join('\n'));
+    }
+    return operations;
+  }
+
+  /**
+   * Assess risk level
+   *
+   * Only adding files is safe; changing, deleting or renaming existing
+   * ones is moderate; system paths or anything outside the project is
+   * dangerous.
+   */
+  private static assessRisk(patches: FilePatch[]): 'safe' | 'moderate' | 'dangerous' {
+    const dangerousPaths = ['/etc/', '/usr/', '/bin/', '/sbin/', '/root/'];
+    const systemFiles = ['.bashrc', '.profile', '.zshrc', 'passwd', 'shadow'];
+
+    const paths = patches
+      .flatMap(patch => [patch.oldPath, patch.newPath])
+      .filter((p): p is string => !!p)
+      .map(resolvePath);
+
+    if (paths.some(p => dangerousPaths.some(dp => p.startsWith(dp)) || systemFiles.some(sf => p.includes(sf)))) {
+      return 'dangerous';
+    }
+    if (paths.some(p => path.relative(process.cwd(), p).startsWith('..'))) {
+      return 'dangerous';
+    }
+
+    return patches.every(patch => patch.oldPath === null) ? 'safe' : 'moderate';
+  }
+}
+
+function resolvePath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+}
+
+/**
+ * A file's content, or null if there's no such file
+ */
+async function readExisting(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One line per file, like `git status --short`: "M src/app.ts", "R old.ts -> new.ts"
+ */
+function describePatch(patch: FilePatch): string {
+  if (!patch.oldPath) return `A ${patch.newPath}`;
+  if (!patch.newPath) return `D ${patch.oldPath}`;
+  if (patch.oldPath !== patch.newPath) return `R ${patch.oldPath} -> ${patch.newPath}`;
+  return `M ${patch.newPath}`;
+}
\ No newline at end of file
@@ -0,0 +1,391 @@
+/**
+ * File editor - targeted search/replace edits
+ *
+ * Rewriting a whole file to change three lines is where small models go
+ * wrong: the reply gets cut off or lines go missing. This tool only sends
+ * the text that changes. Each old_string has to match exactly once (or be
+ * marked replace_all), so an edit never lands in the wrong place.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ToolResult, ToolCallConfirmationDetails } from './toolRegistry.js';
+import { FileDiff, createFileDiff } from '../utils/diff.js';
+import { snapshotBeforeChange } from '../operations/checkpoints.js';
+
+export interface FileEdit {
+  /** Exact text to find, including whitespace and indentation */
+  old_string: string;
+  /** Text to put in its place */
+  new_string: string;
+  /** Replace every occurrence instead of requiring exactly one */
+  replace_all?: boolean;
+}
+
+export interface EditFileParams {
+  /** The absolute path to the file to edit */
+  file_path: string;
+  /** Edits to make, all matched against the file as it is now */
+  edits?: FileEdit[];
+  /** A single edit, for models that don't send `edits` */
+  old_string?: string;
+  new_string?: string;
+  replace_all?: boolean;
+}
+
+/**
+ * Lines an edit touched in the edited file, 1-based and inclusive
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/** Where one edit matched in the original text */
+interface Replacement {
+  edit: number;
+  index: number;
+  length: number;
+  text: string;
+}
+
+const PREVIEW_LINES = 8;
+
+/**
+ * Edit File Tool following Gemini CLI patterns
+ */
+export class EditFileTool {
+  static readonly name = 'edit_file';
+  static readonly displayName = 'Edit File';
+  static readonly description = 'Replaces exact text in an existing file - prefer this over write_file for changing part of a file';
+
+  /**
+   * JSON Schema for function calling
+   */
+  static readonly schema = {
+    name: 'edit_file',
+    description: 'Edits an existing file by replacing exact text. Each old_string must match the file exactly once, including indentation - include enough surrounding lines to make it unique, or set replace_all. Read the file first. Use write_file only for new files or complete rewrites.',
+    parameters: {
+      type: 'object',
+      properties: {
+        file_path: {
+          type: 'string',
+          description: 'The absolute path to the file to edit (e.g., \'/home/user/project/file.txt\'). Relative paths will be converted to absolute.'
+        },
+        edits: {
+          type: 'array',
+          description: 'The edits to make, each {old_string, new_string, replace_all?}. All are matched against the current file and must not overlap.',
+          items: {
+            type: 'object',
+            properties: {
+              old_string: { type: 'string', description: 'Exact text to replace' },
+              new_string: { type: 'string', description: 'Replacement text' },
+              replace_all: { type: 'boolean', description: 'Replace every occurrence (default false)' }
+            },
+            required: ['old_string', 'new_string']
+          }
+        },
+        old_string: {
+          type: 'string',
+          description: 'For a single edit: the exact text to replace'
+        },
+        new_string: {
+          type: 'string',
+          description: 'For a single edit: the replacement text'
+        },
+        replace_all: {
+          type: 'boolean',
+          description: 'For a single edit: replace every occurrence of old_string (default false)'
+        }
+      },
+      required: ['file_path']
+    }
+  };
+
+  /**
+   * Validate parameters
+   */
+  static validateParams(params: EditFileParams): string | null {
+    if (!params.file_path) {
+      return 'Missing or empty "file_path"';
+    }
+    if (params.edits !== undefined && !Array.isArray(params.edits)) {
+      return '"edits" must be an array';
+    }
+
+    const edits = this.getEdits(params);
+    if (edits.length === 0) {
+      return 'Provide "edits" or "old_string" and "new_string"';
+    }
+
+    for (const [index, edit] of edits.entries()) {
+      const label = edits.length > 1 ? `Edit ${index + 1}: ` : '';
+      if (typeof edit?.old_string !== 'string' || typeof edit.new_string !== 'string') {
+        return `${label}old_string and new_string must be strings`;
+      }
+      if (!edit.old_string) {
+        return `${label}old_string is empty - use write_file to create a file`;
+      }
+      if (edit.old_string === edit.new_string) {
+        return `${label}old_string and new_string are the same`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check if tool execution should be confirmed
+   */
+  static async shouldConfirmExecute(params: EditFileParams): Promise<ToolCallConfirmationDetails | false> {
+    const filePath = this.resolvePath(params.file_path);
+    const edits = this.getEdits(params);
+
+    const preview = edits.map((edit, index) => [
+      ...(edits.length > 1 ? [`Edit ${index + 1}${edit.replace_all ? ' (all occurrences)' : ''}:`] : []),
+      ...previewLines(edit.old_string, '-'),
+      ...previewLines(edit.new_string, '+')
+    ].join('\n'));
+
+    let diff: FileDiff | undefined;
+    try {
+      const original = await fs.readFile(filePath, 'utf8');
+      diff = createFileDiff(filePath, original, applyEdits(original, edits).content);
+    } catch {
+      // Edits that don't apply get no diff - running them reports why
+    }
+
+    return {
+      toolName: this.displayName,
+      params: { ...params, file_path: filePath },
+      description: `Edit file: ${filePath} (${edits.length} ${edits.length === 1 ? 'change' : 'changes'})`,
+      risk: this.assessRisk(filePath, edits),
+      preview: `File: ${filePath}\n${preview.join('\n\n')}`,
+      diff
+    };
+  }
+
+  /**
+   * Execute the tool
+   */
+  static async execute(params: EditFileParams): Promise<ToolResult> {
+    try {
+      // Validate parameters
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        return {
+          success: false,
+          content: validationError,
+          displayResult: `❌ Validation failed: ${validationError}`,
+          error: validationError
+        };
+      }
+
+      const filePath = this.resolvePath(params.file_path);
+      const relativePath = path.relative(process.cwd(), filePath);
+
+      let original: string;
+      try {
+        original = await fs.readFile(filePath, 'utf8');
+      } catch {
+        const message = `File not found: ${relativePath} - use write_file to create it`;
+        return {
+          success: false,
+          content: message,
+          displayResult: `❌ ${message}`,
+          error: message
+        };
+      }
+
+      const { content, ranges } = applyEdits(original, this.getEdits(params));
+      await snapshotBeforeChange([filePath]);
+      await fs.writeFile(filePath, content, 'utf8');
+
+      const lines = ranges.map(range => range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`);
+      const single = ranges.length === 1 && ranges[0].start === ranges[0].end;
+      const summary = `${relativePath} (${single ? 'line' : 'lines'} ${lines.join(', ')})`;
+      return {
+        success: true,
+        content: `Edited ${summary}`,
+        displayResult: `✅ Edited ${summary}`
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        content: `Failed to edit file: ${errorMessage}`,
+        displayResult: `❌ Edit failed: ${errorMessage}`,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * The edits from either form of the parameters
+   */
+  private static getEdits(params: EditFileParams): FileEdit[] {
+    if (params.edits && params.edits.length > 0) {
+      return params.edits;
+    }
+    if (params.old_string !== undefined || params.new_string !== undefined) {
+      return [{ old_string: params.old_string!, new_string: params.new_string!, replace_all: params.replace_all }];
+    }
+    return [];
+  }
+
+  private static resolvePath(filePath: string): string {
+    return path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  }
+
+  /**
+   * Assess risk level
+   *
+   * A unique small edit inside the project is safe; replace-all, large
+   * removals and files outside the project deserve a closer look.
+   */
+  private static assessRisk(filePath: string, edits: FileEdit[]): 'safe' | 'moderate' | 'dangerous' {
+    // Check for dangerous paths
+    const dangerousPaths = ['/etc/', '/usr/', '/bin/', '/sbin/', '/root/'];
+    if (dangerousPaths.some(dp => filePath.startsWith(dp))) {
+      return 'dangerous';
+    }
+
+    // Check for system files
+    const systemFiles = ['.bashrc', '.profile', '.zshrc', 'passwd', 'shadow'];
+    if (systemFiles.some(sf => filePath.includes(sf))) {
+      return 'dangerous';
+    }
+
+    const relative = path.relative(process.cwd(), filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return 'moderate';
+    }
+
+    const removedLines = edits.reduce((total, edit) => total + edit.old_string.split('\n').length, 0);
+    if (edits.some(edit => edit.replace_all) || removedLines > 50) {
+      return 'moderate';
+    }
+
+    return 'safe';
+  }
+}
+
+/**
+ * Apply edits to text, returning the result and the lines each edit now occupies
+ *
+ * Every edit is matched against the original text, so edits can't see
+ * each other's output and must not overlap. Throws with a message meant
+ * for the model when an edit doesn't match exactly once.
+ */
+function applyEdits(original: string, edits: FileEdit[]): { content: string; ranges: LineRange[] } {
+  // Models write \n; keep a CRLF file CRLF
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const withEol = (text: string) => eol === '\n' ? text : text.replace(/\r?\n/g, eol);
+
+  const replacements: Replacement[] = [];
+  for (const [index, edit] of edits.entries()) {
+    const label = edits.length > 1 ? `Edit ${index + 1}: ` : '';
+    const search = withEol(edit.old_string);
+    const matches = findAll(original, search);
+
+    if (matches.length === 0) {
+      const hint = normalizeWhitespace(original).includes(normalizeWhitespace(search))
+        ? 'it only matches if whitespace is ignored - copy the indentation exactly'
+        : 'read the file again and copy the text exactly';
+      throw new Error(`${label}old_string not found - ${hint}`);
+    }
+    if (matches.length > 1 && !edit.replace_all) {
+      const lines = matches.map(match => lineAt(original, match));
+      throw new Error(
+        `${label}old_string matches ${matches.length} places (lines ${lines.join(', ')}) - ` +
+        'include more surrounding lines to make it unique, or set replace_all'
+      );
+    }
+
+    for (const match of matches) {
+      replacements.push({ edit: index, index: match, length: search.length, text: withEol(edit.new_string) });
+    }
+  }
+
+  replacements.sort((a, b) => a.index - b.index);
+  for (let i = 1; i < replacements.length; i++) {
+    const previous = replacements[i - 1];
+    if (replacements[i].index < previous.index + previous.length) {
+      throw new Error(`Edits ${previous.edit + 1} and ${replacements[i].edit + 1} overlap - combine them into one edit`);
+    }
+  }
+
+  // Build the result in one pass, tracking how far earlier edits moved each line
+  let content = '';
+  let cursor = 0;
+  let lineShift = 0;
+  const ranges: LineRange[] = [];
+
+  for (const replacement of replacements) {
+    content += original.slice(cursor, replacement.index) + replacement.text;
+    cursor = replacement.index + replacement.length;
+
+    const start = lineAt(original, replacement.index) + lineShift;
+    const newLines = countLines(replacement.text);
+    ranges.push({ start, end: start + Math.max(newLines - 1, 0) });
+    lineShift += newLines - countLines(original.slice(replacement.index, cursor));
+  }
+  content += original.slice(cursor);
+
+  return { content, ranges: mergeRanges(ranges) };
+}
+
+/**
+ * Start offsets of every non-overlapping occurrence
+ */
+function findAll(text: string, search: string): number[] {
+  const matches: number[] = [];
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + search.length)) {
+    matches.push(index);
+  }
+  return matches;
+}
+
+/**
+ * 1-based line number of an offset
+ */
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Lines a piece of text spans - a trailing newline doesn't start another
+ */
+function countLines(text: string): number {
+  if (!text) return 0;
+  return text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+}
+
+/**
+ * Adjacent or overlapping ranges as one, e.g. a replace_all on consecutive lines
+ */
+function mergeRanges(ranges: LineRange[]): LineRange[] {
+  const merged: LineRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * A few lines of one side of an edit, marked - or +
+ */
+function previewLines(text: string, marker: '-' | '+'): string[] {
+  const lines = text.split('\n');
+  const shown = lines.slice(0, PREVIEW_LINES).map(line => `${marker} ${line}`);
+  return lines.length > PREVIEW_LINES ? [...shown, `  ... ${lines.length - PREVIEW_LINES} more lines`] : shown;
+}
\ No newline at end of file
@@ -6,6 +6,7 @@
  */
 
 import { IntelligentDevelopmentTool, IntelligentRequest } from './intelligentTools.js';
+import { snapshotBeforeChange } from '../operations/checkpoints.js';
 
 export interface ToolResult {
   success: boolean;
@@ -267,7 +268,8 @@ export class ToolRegistry {
       const dir = path.dirname(filePath);
       await fs.mkdir(dir, { recursive: true });
       
-      // Write file
+      // Write file, keeping what was there for /undo
+      await snapshotBeforeChange([filePath]);
       await fs.writeFile(filePath, content, 'utf-8');
       
       return {
@@ -0,0 +1,244 @@
+/**
+ * File finder - paths matching a glob pattern
+ *
+ * Lets the model find files by name instead of guessing paths or running
+ * `find` through the shell. Skips what git ignores and the directories
+ * project analysis never scans, and lists the most recently changed
+ * files first since those are usually the ones being worked on.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ToolResult, ToolCallConfirmationDetails } from './toolRegistry.js';
+import { IGNORED_DIRECTORIES } from '../analysis/projectContext.js';
+import { IgnoreRule, globToRegExp, parseGitignore, isIgnored } from '../utils/glob.js';
+
+export interface GlobParams {
+  /** Glob relative to the directory, e.g. every .tsx file under src */
+  pattern: string;
+  /** Directory to search from - the working directory by default */
+  directory?: string;
+  /** Most paths to return */
+  max_results?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS = 500;
+
+interface GlobMatch {
+  filePath: string;
+  mtime: number;
+}
+
+/**
+ * Glob Tool following Gemini CLI patterns
+ */
+export class GlobTool {
+  static readonly name = 'glob';
+  static readonly displayName = 'Find Files';
+  static readonly description = 'Finds files whose paths match a glob pattern, most recently modified first';
+
+  /**
+   * JSON Schema for function calling
+   */
+  static readonly schema = {
+    name: 'glob',
+    description: 'Finds files by path pattern, e.g. "src/**/*.tsx" or "**/*.{json,yaml}". ** matches any number of directories, * and ? match within one. Files ignored by .gitignore, node_modules and build output are skipped. Results are sorted newest first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Glob pattern relative to the directory. Use **/ to search subdirectories - "*.ts" only matches the top level.'
+        },
+        directory: {
+          type: 'string',
+          description: 'Directory to search from (defaults to the current working directory)'
+        },
+        max_results: {
+          type: 'number',
+          description: `Maximum number of paths to return (default ${DEFAULT_MAX_RESULTS}, max ${MAX_RESULTS})`
+        }
+      },
+      required: ['pattern']
+    }
+  };
+
+  /**
+   * Validate parameters
+   */
+  static validateParams(params: GlobParams): string | null {
+    if (!params.pattern || typeof params.pattern !== 'string') {
+      return 'Missing or empty "pattern"';
+    }
+    if (params.max_results !== undefined && (!Number.isInteger(params.max_results) || params.max_results < 1)) {
+      return '"max_results" must be a positive whole number';
+    }
+    return null;
+  }
+
+  /**
+   * Check if tool execution should be confirmed
+   */
+  static async shouldConfirmExecute(params: GlobParams): Promise<ToolCallConfirmationDetails | false> {
+    return false; // Read-only - only lists paths, never file contents
+  }
+
+  /**
+   * Execute the tool
+   */
+  static async execute(params: GlobParams, signal?: AbortSignal): Promise<ToolResult> {
+    try {
+      // Validate parameters
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        return {
+          success: false,
+          content: validationError,
+          displayResult: `❌ Validation failed: ${validationError}`,
+          error: validationError
+        };
+      }
+
+      const dirPath = this.resolveDirectory(params.directory);
+      const stats = await fs.stat(dirPath);
+      if (!stats.isDirectory()) {
+        return {
+          success: false,
+          content: 'Path is not a directory',
+          displayResult: `❌ Not a directory: ${dirPath}`,
+          error: 'Path is not a directory'
+        };
+      }
+
+      // Patterns are written relative to the directory, with forward slashes
+      const pattern = params.pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+      const matches = await findMatches(dirPath, globToRegExp(pattern), signal);
+      matches.sort((a, b) => b.mtime - a.mtime);
+
+      const limit = Math.min(params.max_results || DEFAULT_MAX_RESULTS, MAX_RESULTS);
+      const shown = matches.slice(0, limit).map(match => path.relative(process.cwd(), match.filePath));
+
+      if (shown.length === 0) {
+        return {
+          success: true,
+          content: `No files match ${params.pattern}`,
+          displayResult: `✅ No files match ${params.pattern}`
+        };
+      }
+
+      const truncated = matches.length > limit
+        ? `\n... ${matches.length - limit} more - narrow the pattern to see them`
+        : '';
+      return {
+        success: true,
+        content: shown.join('\n') + truncated,
+        displayResult: `✅ Found ${matches.length} ${matches.length === 1 ? 'file' : 'files'} matching ${params.pattern}` +
+          (matches.length > limit ? ` (showing ${limit})` : '')
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        content: `Failed to find files: ${errorMessage}`,
+        displayResult: `❌ Find failed: ${errorMessage}`,
+        error: errorMessage
+      };
+    }
+  }
+
+  private static resolveDirectory(directory?: string): string {
+    if (!directory) {
+      return process.cwd();
+    }
+    return path.isAbsolute(directory) ? directory : path.resolve(process.cwd(), directory);
+  }
+}
+
+/**
+ * Walk a directory for files matching a pattern, skipping ignored
+ * directories without descending into them
+ *
+ * Each directory's .gitignore applies below it, on top of its parents' -
+ * including those between the search directory and the repository root.
+ */
+async function findMatches(root: string, pattern: RegExp, signal?: AbortSignal): Promise<GlobMatch[]> {
+  const matches: GlobMatch[] = [];
+  const repoRoot = await findRepositoryRoot(root);
+
+  // .gitignore files above the search directory
+  const inherited: IgnoreRule[] = [];
+  const parents = path.relative(repoRoot, root).split(path.sep).filter(Boolean);
+  for (let depth = 0; depth < parents.length; depth++) {
+    inherited.push(...await readGitignore(repoRoot, parents.slice(0, depth).join('/')));
+  }
+
+  async function scanDirectory(dir: string, parentRules: IgnoreRule[]): Promise<void> {
+    signal?.throwIfAborted();
+
+    // Ignore rules match from the repository root, the pattern from the search directory
+    const repoDir = toSlashes(path.relative(repoRoot, dir));
+    const searchDir = toSlashes(path.relative(root, dir));
+    const rules = [...parentRules, ...await readGitignore(repoRoot, repoDir)];
+
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Skip directories we can't access
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const repoPath = repoDir ? `${repoDir}/${entry.name}` : entry.name;
+      const searchPath = searchDir ? `${searchDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.includes(entry.name) && !isIgnored(rules, repoPath, true)) {
+          await scanDirectory(fullPath, rules);
+        }
+      } else if (entry.isFile() && pattern.test(searchPath) && !isIgnored(rules, repoPath, false)) {
+        try {
+          matches.push({ filePath: fullPath, mtime: (await fs.stat(fullPath)).mtimeMs });
+        } catch {
+          // Deleted while we were looking
+        }
+      }
+    }
+  }
+
+  await scanDirectory(root, inherited);
+  return matches;
+}
+
+/**
+ * The enclosing git repository's root - the directory itself outside one
+ */
+async function findRepositoryRoot(dir: string): Promise<string> {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (await fs.stat(path.join(current, '.git')).then(() => true, () => false)) {
+      return current;
+    }
+    if (path.dirname(current) === current) {
+      return dir;
+    }
+  }
+}
+
+/**
+ * A directory's .gitignore rules, or none
+ *
+ * @param relativeDir - The directory relative to the repository root
+ */
+async function readGitignore(repoRoot: string, relativeDir: string): Promise<IgnoreRule[]> {
+  try {
+    return parseGitignore(await fs.readFile(path.join(repoRoot, relativeDir, '.gitignore'), 'utf-8'), relativeDir);
+  } catch {
+    return [];
+  }
+}
+
+function toSlashes(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
\ No newline at end of file
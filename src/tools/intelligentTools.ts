@@ -10,6 +10,7 @@ import * as path from 'path';
 import { ProjectContextAnalyzer, ProjectContext } from '../analysis/projectContext.js';
 import { IntelligentCodeGenerator, GenerationRequest } from '../generation/codeGenerator.js';
 import { MultiFileOperationManager, OperationRequest } from '../operations/multiFileOperations.js';
+import { snapshotBeforeChange } from '../operations/checkpoints.js';
 import { ToolResult } from './geminiStyleTools.js';
 
 /**
@@ -179,6 +180,11 @@ export class IntelligentDevelopmentTool {
     };
     
     const result = this.codeGenerator.generateCode(generationRequest, context);
+    await snapshotBeforeChange([
+      result.filePath,
+      ...result.additionalFiles.map(file => file.path),
+      ...result.imports.map(importInfo => importInfo.filePath)
+    ]);
     
     // Create the main file
     await this.ensureDirectoryExists(path.dirname(result.filePath));
@@ -219,6 +225,7 @@ export class IntelligentDevelopmentTool {
     };
     
     const operation = await this.operationManager.executeOperation(operationRequest, context);
+    await snapshotBeforeChange(operation.operations.map(fileOp => fileOp.filePath));
     
     // Execute all file operations
     const filesCreated: string[] = [];
@@ -254,6 +261,7 @@ export class IntelligentDevelopmentTool {
     };
     
     const operation = await this.operationManager.executeOperation(operationRequest, context);
+    await snapshotBeforeChange(operation.operations.map(fileOp => fileOp.filePath));
     
     // Execute all file operations
     const filesCreated: string[] = [];
@@ -286,6 +294,7 @@ export class IntelligentDevelopmentTool {
     };
     
     const operation = await this.operationManager.executeOperation(operationRequest, context);
+    await snapshotBeforeChange(operation.operations.map(fileOp => fileOp.filePath));
     
     // Execute all file operations
     const filesCreated: string[] = [];
@@ -331,6 +340,7 @@ export class IntelligentDevelopmentTool {
     };
     
     const operation = await this.operationManager.executeOperation(operationRequest, context);
+    await snapshotBeforeChange(operation.operations.map(fileOp => fileOp.filePath));
     
     // Execute all file operations
     const filesCreated: string[] = [];
@@ -363,6 +373,7 @@ export class IntelligentDevelopmentTool {
     };
     
     const operation = await this.operationManager.executeOperation(operationRequest, context);
+    await snapshotBeforeChange(operation.operations.map(fileOp => fileOp.filePath));
     
     // Execute all file operations
     const filesCreated: string[] = [];
@@ -7,6 +7,8 @@
 
 import fs from 'fs/promises';
 import path from 'path';
+import { FileDiff, createFileDiff } from '../utils/diff.js';
+import { snapshotBeforeChange } from '../operations/checkpoints.js';
 
 export interface WriteFileParams {
   /** The absolute path to the file to write to */
@@ -28,6 +30,8 @@ export interface ToolCallConfirmationDetails {
   description: string;
   risk: 'safe' | 'moderate' | 'dangerous';
   preview: string;
+  /** The change to the file's content, shown in place of the raw params */
+  diff?: FileDiff;
 }
 
 /**
@@ -82,16 +86,17 @@ export class WriteFileTool {
       ? params.file_path 
       : path.resolve(process.cwd(), params.file_path);
 
-    // Check if file exists
-    let fileExists = false;
+    // Read what's there now, if anything, to show what would change
+    let existing: string | null = null;
     try {
-      await fs.access(filePath);
-      fileExists = true;
+      existing = await fs.readFile(filePath, 'utf8');
     } catch {
       // File doesn't exist, that's fine
     }
+    const fileExists = existing !== null;
 
     const risk = this.assessRisk(filePath, params.content, fileExists);
+    const diff = createFileDiff(filePath, existing, params.content);
     
     return {
       toolName: this.displayName,
@@ -100,7 +105,8 @@ export class WriteFileTool {
         ? `Overwrite existing file: ${filePath}`
         : `Create new file: ${filePath}`,
       risk,
-      preview: `File: ${filePath}\nContent preview:\n${params.content.substring(0, 200)}${params.content.length > 200 ? '...' : ''}`
+      preview: `File: ${filePath}\n+${diff.added} -${diff.removed} lines`,
+      diff
     };
   }
 
@@ -129,7 +135,8 @@ export class WriteFileTool {
       const dir = path.dirname(filePath);
       await fs.mkdir(dir, { recursive: true });
 
-      // Write file
+      // Write file, keeping what was there for /undo
+      await snapshotBeforeChange([filePath]);
       await fs.writeFile(filePath, params.content, 'utf8');
 
       const relativePath = path.relative(process.cwd(), filePath);
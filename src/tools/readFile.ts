@@ -1,12 +1,14 @@
 /**
  * File reader - reads files and returns their content
  *
- * Supports line limits because nobody wants to read a 10MB log file in the terminal
+ * Supports line limits because nobody wants to read a 10MB log file in the terminal.
+ * Image files come back as images so vision models can look at them.
  */
 
 import fs from 'fs/promises';
 import path from 'path';
 import { ToolResult, ToolCallConfirmationDetails } from './toolRegistry.js';
+import { getImageMimeType, readImageFile } from '../utils/images.js';
 
 export interface ReadFileParams {
   /** The absolute path to the file to read */
@@ -28,7 +30,7 @@ export class ReadFileTool {
    */
   static readonly schema = {
     name: 'read_file',
-    description: 'Reads the contents of a specified file from the local filesystem. Can limit output to prevent reading very large files.',
+    description: 'Reads the contents of a specified file from the local filesystem. Can limit output to prevent reading very large files. Image files (png, jpg, gif, webp, bmp) are returned as images you can see, e.g. a screenshot of a broken UI.',
     parameters: {
       type: 'object',
       properties: {
@@ -120,6 +122,10 @@ export class ReadFileTool {
         ? params.file_path 
         : path.resolve(process.cwd(), params.file_path);
 
+      if (getImageMimeType(filePath)) {
+        return await this.readImage(filePath);
+      }
+
       // Read file
       const fileContent = await fs.readFile(filePath, 'utf8');
       
@@ -154,4 +160,20 @@ export class ReadFileTool {
       };
     }
   }
+
+  /**
+   * Return an image file as an attachment instead of text
+   */
+  private static async readImage(filePath: string): Promise<ToolResult> {
+    const image = await readImageFile(filePath);
+    const relativePath = path.relative(process.cwd(), filePath);
+    const sizeKb = Math.round(image.data.length * 3 / 4 / 1024);
+
+    return {
+      success: true,
+      content: `Image ${relativePath} (${image.mimeType}, ${sizeKb}KB) is attached for you to view.`,
+      displayResult: `✅ Read image: ${relativePath} (${sizeKb}KB)`,
+      images: [image]
+    };
+  }
 }
\ No newline at end of file
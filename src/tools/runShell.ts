@@ -17,6 +17,9 @@ export interface RunShellParams {
   timeout?: number;
 }
 
+/** How long a stopped command gets to exit before it's killed outright */
+const KILL_GRACE_PERIOD = 2000;
+
 /**
  * Run Shell Command Tool following Gemini CLI patterns
  */
@@ -85,7 +88,7 @@ export class RunShellTool {
   /**
    * Execute the tool
    */
-  static async execute(params: RunShellParams): Promise<ToolResult> {
+  static async execute(params: RunShellParams, signal?: AbortSignal): Promise<ToolResult> {
     try {
       // Validate parameters
       const validationError = this.validateParams(params);
@@ -102,7 +105,7 @@ export class RunShellTool {
       const workingDirectory = params.working_directory || process.cwd();
       const timeout = params.timeout || 30000;
 
-      const result = await this.executeCommand(command, workingDirectory, timeout);
+      const result = await this.executeCommand(command, workingDirectory, timeout, signal);
       
       if (result.success) {
         return {
@@ -131,21 +134,51 @@ export class RunShellTool {
   }
 
   /**
-   * Execute command with proper error handling and timeout
+   * Execute command with proper error handling, timeout and cancellation
    */
   private static executeCommand(
     command: string, 
     workingDirectory: string, 
-    timeout: number
+    timeout: number,
+    signal?: AbortSignal
   ): Promise<{ success: boolean; stdout: string; stderr: string; exitCode: number | null }> {
     return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve({ success: false, stdout: '', stderr: 'Command cancelled', exitCode: null });
+        return;
+      }
+
+      // In its own process group, so stopping it reaches pipelines and
+      // background jobs, not just the shell that started them
+      const useProcessGroup = process.platform !== 'win32';
       const [cmd, ...args] = command.split(' ');
       const child = spawn(cmd, args, {
         cwd: workingDirectory,
         stdio: ['pipe', 'pipe', 'pipe'],
-        shell: true
+        shell: true,
+        detached: useProcessGroup
       });
 
+      const signalCommand = (killSignal: NodeJS.Signals) => {
+        try {
+          if (useProcessGroup && child.pid) {
+            process.kill(-child.pid, killSignal);
+            return;
+          }
+        } catch {
+          // The group is already gone - fall back to the shell itself
+        }
+        if (child.exitCode === null && child.signalCode === null) {
+          child.kill(killSignal);
+        }
+      };
+
+      // Commands that trap or ignore SIGTERM get SIGKILL once the grace period is up
+      const stop = () => {
+        signalCommand('SIGTERM');
+        setTimeout(() => signalCommand('SIGKILL'), KILL_GRACE_PERIOD).unref();
+      };
+
       let stdout = '';
       let stderr = '';
       let isResolved = false;
@@ -154,7 +187,8 @@ export class RunShellTool {
       const timeoutId = setTimeout(() => {
         if (!isResolved) {
           isResolved = true;
-          child.kill('SIGTERM');
+          signal?.removeEventListener('abort', onAbort);
+          stop();
           resolve({
             success: false,
             stdout,
@@ -164,6 +198,22 @@ export class RunShellTool {
         }
       }, timeout);
 
+      // Stop the command when the user cancels the turn
+      const onAbort = () => {
+        if (!isResolved) {
+          isResolved = true;
+          clearTimeout(timeoutId);
+          stop();
+          resolve({
+            success: false,
+            stdout,
+            stderr: stderr + '\nCommand cancelled',
+            exitCode: null
+          });
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       // Collect output
       child.stdout?.on('data', (data) => {
         stdout += data.toString();
@@ -175,6 +225,7 @@ export class RunShellTool {
 
       // Handle completion
       child.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
         if (!isResolved) {
           isResolved = true;
           clearTimeout(timeoutId);
@@ -189,6 +240,7 @@ export class RunShellTool {
 
       // Handle errors
       child.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
         if (!isResolved) {
           isResolved = true;
           clearTimeout(timeoutId);
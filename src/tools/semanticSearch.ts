@@ -0,0 +1,194 @@
+/**
+ * Semantic search - finds code by meaning instead of by name
+ *
+ * Embeds the project into a local index on first use and only re-embeds
+ * files that changed, so later searches in a big repo stay cheap
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ToolResult, ToolCallConfirmationDetails } from './toolRegistry.js';
+import { SemanticIndex, Embedder } from '../analysis/semanticIndex.js';
+import { defaultOllamaClient } from '../ollama/client.js';
+import { DEFAULT_EMBEDDING_MODEL } from '../ollama/models.js';
+
+export interface SemanticSearchParams {
+  /** Natural-language description of the code to find */
+  query: string;
+  /** Number of snippets to return */
+  top_k?: number;
+  /** Project directory to search, defaults to the working directory */
+  directory?: string;
+}
+
+const DEFAULT_TOP_K = 5;
+const MAX_TOP_K = 20;
+
+/** Snippets are cut here - the model can read_file for the rest */
+const MAX_SNIPPET_LINES = 30;
+
+/**
+ * Semantic Search Tool following Gemini CLI patterns
+ */
+export class SemanticSearchTool {
+  static readonly name = 'semantic_search';
+  static readonly displayName = 'Semantic Search';
+  static readonly description = 'Finds code related to a natural-language query using a local embedding index';
+
+  /**
+   * JSON Schema for function calling
+   */
+  static readonly schema = {
+    name: 'semantic_search',
+    description: 'Finds the functions and classes most related to a natural-language query (e.g. "where are tool permissions checked"). Returns code snippets with file:line locations. Use it to find relevant code in large projects before reading whole files.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'What the code does or is about, in plain language'
+        },
+        top_k: {
+          type: 'number',
+          description: `Number of snippets to return (default: ${DEFAULT_TOP_K}, max: ${MAX_TOP_K})`
+        },
+        directory: {
+          type: 'string',
+          description: 'The absolute path to the project directory to search. Defaults to the current working directory.'
+        }
+      },
+      required: ['query']
+    }
+  };
+
+  private static embedder: Embedder = async (texts, signal) =>
+    (await defaultOllamaClient.embed({ model: DEFAULT_EMBEDDING_MODEL, input: texts }, signal)).embeddings;
+  private static embeddingModel = DEFAULT_EMBEDDING_MODEL;
+  private static indexes: Map<string, SemanticIndex> = new Map();
+
+  /**
+   * Embed with the session's embedding model instead of the default client
+   */
+  static configure(embedder: Embedder, embeddingModel: string): void {
+    this.embedder = embedder;
+    this.embeddingModel = embeddingModel;
+    this.indexes.clear();
+  }
+
+  /**
+   * Validate parameters
+   */
+  static validateParams(params: SemanticSearchParams): string | null {
+    if (!params.query || !params.query.trim()) {
+      return 'Missing or empty "query"';
+    }
+    if (params.top_k !== undefined && (params.top_k < 1 || params.top_k > MAX_TOP_K)) {
+      return `top_k must be between 1 and ${MAX_TOP_K}`;
+    }
+    return null;
+  }
+
+  /**
+   * Check if tool execution should be confirmed
+   */
+  static async shouldConfirmExecute(params: SemanticSearchParams): Promise<ToolCallConfirmationDetails | false> {
+    const dirPath = this.resolveDirectory(params.directory);
+
+    return {
+      toolName: this.displayName,
+      params: { ...params, directory: dirPath },
+      description: `Search code for: ${params.query}`,
+      risk: 'safe', // Read-only apart from the index cache under .numidium/
+      preview: `Query: ${params.query}\nDirectory: ${dirPath}\nResults: ${params.top_k || DEFAULT_TOP_K}\nEmbedding model: ${this.embeddingModel}`
+    };
+  }
+
+  /**
+   * Execute the tool
+   */
+  static async execute(params: SemanticSearchParams, signal?: AbortSignal): Promise<ToolResult> {
+    try {
+      // Validate parameters
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        return {
+          success: false,
+          content: validationError,
+          displayResult: `❌ Validation failed: ${validationError}`,
+          error: validationError
+        };
+      }
+
+      const dirPath = this.resolveDirectory(params.directory);
+      const dirStats = await fs.stat(dirPath);
+      if (!dirStats.isDirectory()) {
+        return {
+          success: false,
+          content: 'Path is not a directory',
+          displayResult: `❌ Not a directory: ${dirPath}`,
+          error: 'Path is not a directory'
+        };
+      }
+
+      const index = this.getIndex(dirPath);
+      const stats = await index.update(signal);
+      const results = await index.search(params.query, params.top_k || DEFAULT_TOP_K, signal);
+
+      const indexNote = stats.indexed > 0 ? `, indexed ${stats.indexed} changed files` : '';
+      if (results.length === 0) {
+        return {
+          success: true,
+          content: 'No indexable source files found',
+          displayResult: `✅ Semantic search: no source files to search${indexNote}`
+        };
+      }
+
+      const output = results.map(result => {
+        const lines = result.text.split('\n');
+        const snippet = lines.length > MAX_SNIPPET_LINES
+          ? `${lines.slice(0, MAX_SNIPPET_LINES).join('\n')}\n... (${lines.length - MAX_SNIPPET_LINES} more lines)`
+          : result.text;
+        const symbol = result.symbol ? ` ${result.symbol}` : '';
+
+        return `${result.file}:${result.startLine}-${result.endLine}${symbol} (score ${result.score.toFixed(2)})\n${snippet}`;
+      }).join('\n\n');
+
+      return {
+        success: true,
+        content: output,
+        displayResult: `✅ Semantic search: ${results.length} matches for "${params.query}"${indexNote}`
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        content: `Semantic search failed: ${errorMessage}`,
+        displayResult: `❌ Semantic search failed: ${errorMessage}`,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Keep one index per directory so it's only read from disk once
+   */
+  private static getIndex(dirPath: string): SemanticIndex {
+    let index = this.indexes.get(dirPath);
+    if (!index) {
+      index = new SemanticIndex(dirPath, this.embedder, this.embeddingModel);
+      this.indexes.set(dirPath, index);
+    }
+    return index;
+  }
+
+  /**
+   * Convert relative or missing paths to an absolute directory
+   */
+  private static resolveDirectory(directory?: string): string {
+    if (!directory) {
+      return process.cwd();
+    }
+    return path.isAbsolute(directory) ? directory : path.resolve(process.cwd(), directory);
+  }
+}
\ No newline at end of file
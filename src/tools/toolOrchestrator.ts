@@ -13,6 +13,8 @@ export interface ToolExecutionContext {
   conversationHistory?: string[];
   workingDirectory: string;
   availableTools: string[];
+  /** Cancels tool execution when the user aborts the turn */
+  signal?: AbortSignal;
 }
 
 export interface ToolExecutionResult {
@@ -162,7 +164,8 @@ export class ToolOrchestrator {
       const result = await this.toolRegistry.executeToolCall(
         toolCall.name,
         toolCall.arguments,
-        this.permissionHandler
+        this.permissionHandler,
+        context.signal
       );
 
       console.log('🔧 Tool execution result:', result.success ? '✅ Success' : '❌ Failed');
@@ -248,6 +251,12 @@ Please analyze this request and determine if it needs a function call. If so, re
       case 'write_file':
         response += `create a file at \`${toolCall.arguments.file_path}\``;
         break;
+      case 'edit_file':
+        response += `edit \`${toolCall.arguments.file_path}\``;
+        break;
+      case 'apply_patch':
+        response += 'apply a patch';
+        break;
       case 'read_file':
         response += `read the file \`${toolCall.arguments.file_path}\``;
         break;
@@ -257,6 +266,9 @@ Please analyze this request and determine if it needs a function call. If so, re
       case 'list_directory':
         response += `list the contents of \`${toolCall.arguments.path}\``;
         break;
+      case 'glob':
+        response += `find files matching \`${toolCall.arguments.pattern}\``;
+        break;
       default:
         response += `execute ${toolCall?.name}`;
     }
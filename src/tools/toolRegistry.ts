@@ -7,8 +7,14 @@
 
 import { WriteFileTool } from './properWriteFile.js';
 import { ReadFileTool } from './readFile.js';
+import { EditFileTool } from './editFile.js';
+import { ApplyPatchTool } from './applyPatch.js';
 import { RunShellTool } from './runShell.js';
 import { ListDirectoryTool } from './listDirectory.js';
+import { GlobTool } from './glob.js';
+import { SemanticSearchTool } from './semanticSearch.js';
+import { InlineData } from '../types.js';
+import { FileDiff } from '../utils/diff.js';
 
 export interface FunctionDeclaration {
   name: string;
@@ -19,6 +25,8 @@ export interface FunctionDeclaration {
       type: string;
       description: string;
       enum?: string[];
+      /** Element schema for array parameters */
+      items?: Record<string, unknown>;
     }>;
     required: string[];
   };
@@ -29,6 +37,8 @@ export interface ToolResult {
   content: string;
   displayResult: string;
   error?: string;
+  /** Images for the model to look at alongside `content` */
+  images?: InlineData[];
 }
 
 export interface ToolCallConfirmationDetails {
@@ -37,6 +47,8 @@ export interface ToolCallConfirmationDetails {
   description: string;
   risk: 'safe' | 'moderate' | 'dangerous';
   preview: string;
+  /** The change to a file's content, shown in place of the raw params */
+  diff?: FileDiff;
 }
 
 export interface StructuredTool {
@@ -46,7 +58,7 @@ export interface StructuredTool {
   schema: FunctionDeclaration;
   validateParams(params: Record<string, any>): string | null;
   shouldConfirmExecute(params: Record<string, any>): Promise<ToolCallConfirmationDetails | false>;
-  execute(params: Record<string, any>): Promise<ToolResult>;
+  execute(params: Record<string, any>, signal?: AbortSignal): Promise<ToolResult>;
 }
 
 /**
@@ -65,8 +77,12 @@ export class ToolRegistry {
   private registerDefaultTools(): void {
     this.registerTool('write_file', WriteFileTool);
     this.registerTool('read_file', ReadFileTool);
+    this.registerTool('edit_file', EditFileTool);
+    this.registerTool('apply_patch', ApplyPatchTool);
     this.registerTool('run_shell_command', RunShellTool);
     this.registerTool('list_directory', ListDirectoryTool);
+    this.registerTool('glob', GlobTool);
+    this.registerTool('semantic_search', SemanticSearchTool);
   }
 
   /**
@@ -122,7 +138,8 @@ export class ToolRegistry {
   async executeToolCall(
     toolName: string, 
     params: Record<string, any>,
-    permissionHandler?: (details: ToolCallConfirmationDetails) => Promise<boolean>
+    permissionHandler?: (details: ToolCallConfirmationDetails) => Promise<boolean>,
+    signal?: AbortSignal
   ): Promise<ToolResult> {
     console.log('🛠️ ToolRegistry: executeToolCall called for', toolName);
     const tool = this.getTool(toolName);
@@ -184,8 +201,18 @@ export class ToolRegistry {
       console.log('✅ No confirmation needed');
     }
 
+    // The turn may have been cancelled while the permission dialog was open
+    if (signal?.aborted) {
+      return {
+        success: false,
+        content: 'Tool execution cancelled by user',
+        displayResult: '❌ Operation cancelled',
+        error: 'User cancelled operation'
+      };
+    }
+
     // Execute the tool
     console.log('🔧 Executing tool...');
-    return await tool.execute(params);
+    return await tool.execute(params, signal);
   }
 }
\ No newline at end of file
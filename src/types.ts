@@ -11,10 +11,19 @@ export interface Content {
 
 export interface Part {
   text?: string;
+  /** An image for vision models */
+  inlineData?: InlineData;
   functionCall?: FunctionCall;
   functionResponse?: FunctionResponse;
 }
 
+export interface InlineData {
+  /** e.g. 'image/png' */
+  mimeType: string;
+  /** Base64-encoded bytes */
+  data: string;
+}
+
 export interface FunctionCall {
   name: string;
   args: Record<string, unknown>;
@@ -41,6 +50,7 @@ export interface FunctionDeclaration {
 
 export interface GenerateContentParameters {
   contents: Content[];
+  systemInstruction?: string;
   tools?: Tool[];
   generationConfig?: GenerationConfig;
 }
@@ -79,6 +89,8 @@ export interface CountTokensResponse {
 
 export interface EmbedContentParameters {
   content: Content;
+  /** Embedding model to use instead of the configured one */
+  model?: string;
 }
 
 export interface EmbedContentResponse {
@@ -5,7 +5,7 @@
  * and somehow makes Ink work without losing my sanity
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Box, Text, useInput, useApp } from 'ink';
 import { AiCliSession, SessionConfig } from '../session/session.js';
 import { StructuredSession, StructuredSessionConfig } from '../session/structuredSession.js';
@@ -17,6 +17,10 @@ import { SlashMenu } from './components/SlashMenu.js';
 import { PermissionDialog } from './components/PermissionDialog.js';
 import { TaskTracker as TaskTrackerComponent } from './components/TaskTracker.js';
 import { ModelSelector } from './components/ModelSelector.js';
+import { RewindSelector } from './components/RewindSelector.js';
+import { OllamaRunningModel } from '../ollama/client.js';
+import { parseHostList } from '../api/backends.js';
+import { Checkpoint, RestoreResult } from '../operations/checkpoints.js';
 
 export interface AppState {
   isLoading: boolean;
@@ -26,13 +30,29 @@ export interface AppState {
   showPermissionDialog: boolean;
   showTaskTracker: boolean;
   showModelSelector: boolean;
+  showRewindSelector: boolean;
   permissionRequest?: any;
   currentTasks: Task[];
+  /** Reply text streamed so far for the turn in progress */
+  streamingText: string;
+  /** Reasoning streamed so far for the turn in progress */
+  streamingReasoning: string;
+  /** Whether reasoning is shown at all (the showReasoning setting) */
+  showReasoning: boolean;
+  /** Whether reasoning sections are expanded */
+  expandReasoning: boolean;
+  /** Models loaded in Ollama's memory */
+  residentModels?: OllamaRunningModel[];
+  /** The Ollama server chat requests are going to */
+  activeHost?: string;
   messages: Array<{
     role: 'user' | 'assistant' | 'system';
     content: string;
     timestamp: Date;
     toolExecutions?: any[];
+    reasoning?: string;
+    /** Parameter profile the reply was generated with */
+    profile?: string;
   }>;
 }
 
@@ -46,18 +66,38 @@ export default function App() {
     showPermissionDialog: false,
     showTaskTracker: false,
     showModelSelector: false,
+    showRewindSelector: false,
     currentTasks: [],
+    streamingText: '',
+    streamingReasoning: '',
+    showReasoning: true,
+    expandReasoning: false,
     messages: []
   });
   
   const [session, setSession] = useState<StructuredSession | null>(null);
   const [taskTracker, setTaskTracker] = useState<TaskTracker | null>(null);
   const [input, setInput] = useState('');
+  const turnController = useRef<AbortController | null>(null);
 
   // Set up the AI session when component loads
   useEffect(() => {
     const config: StructuredSessionConfig = {
       ollamaHost: 'http://localhost:11434',
+      // NUMIDIUM_BACKEND=openai talks to llama-server, LM Studio or vLLM instead
+      backend: {
+        type: process.env.NUMIDIUM_BACKEND === 'openai' ? 'openai' : 'ollama',
+        host: process.env.NUMIDIUM_HOST,
+        // NUMIDIUM_HOSTS=http://gpu-box:11434,http://localhost:11434 fails over between servers
+        hosts: parseHostList(process.env.NUMIDIUM_HOSTS),
+        apiKey: process.env.NUMIDIUM_API_KEY,
+        // Reproducible runs: record a session, replay it, or script the model's replies
+        transport: {
+          record: process.env.NUMIDIUM_RECORD,
+          replay: process.env.NUMIDIUM_REPLAY,
+          script: process.env.NUMIDIUM_SCRIPT
+        }
+      },
       defaultModel: 'qwen3:latest',
       maxContextTokens: 8192,
       contextCompactionThreshold: 0.8,
@@ -65,7 +105,9 @@ export default function App() {
       apiConfig: {
         temperature: 0.1,
         timeout: 120000,
-        retries: 3
+        retries: 3,
+        embeddingModel: 'nomic-embed-text',
+        keepAlive: '30m'
       },
       toolConfig: {
         requireConfirmation: true,
@@ -105,8 +147,49 @@ export default function App() {
     });
   }, []);
 
+  // Poll which models Ollama holds in memory - they load and expire on their own -
+  // and which host is serving them, which changes on failover
+  useEffect(() => {
+    if (!session || session.getBackendKind() !== 'ollama') return;
+
+    const refresh = () => {
+      session.getRunningModels()
+        .then(residentModels => setState(prev => ({ ...prev, residentModels, activeHost: session.getActiveHost() })))
+        .catch(() => {
+          // Status only - keep showing the last known state
+        });
+    };
+
+    refresh();
+    const interval = setInterval(refresh, 10000);
+    return () => clearInterval(interval);
+  }, [session, state.currentModel, state.isLoading]);
+
+  // Stop the running turn - generation, tool execution and any open permission prompt
+  const cancelTurn = () => {
+    turnController.current?.abort();
+    state.permissionRequest?.resolve(false);
+    setState(prev => ({ ...prev, showPermissionDialog: false, permissionRequest: undefined }));
+  };
+
   // Handle keyboard input
   useInput((input: string, key: any) => {
+    // Ctrl+C cancels a running turn; pressed again while idle, it quits
+    if (key.ctrl && input === 'c') {
+      if (state.isLoading) {
+        cancelTurn();
+      } else {
+        exit();
+      }
+      return;
+    }
+
+    // Ctrl+O expands or collapses reasoning sections
+    if (key.ctrl && input === 'o') {
+      setState(prev => ({ ...prev, expandReasoning: !prev.expandReasoning }));
+      return;
+    }
+
     if (state.showSlashMenu) {
       // Slash menu handles its own input
       return;
@@ -128,8 +211,15 @@ export default function App() {
       return;
     }
 
+    if (state.showRewindSelector) {
+      // Rewind selector handles its own input
+      return;
+    }
+
     if (key.escape) {
-      exit();
+      if (state.isLoading) {
+        cancelTurn();
+      }
       return;
     }
 
@@ -162,6 +252,18 @@ export default function App() {
       case 's':
         showSettings();
         break;
+      case 'p':
+        nextParameterProfile();
+        break;
+      case 'r':
+        toggleReasoning();
+        break;
+      case 'u':
+        undoLastTurn();
+        break;
+      case 'w':
+        showRewindMenu();
+        break;
       case 'c':
         clearSession();
         break;
@@ -185,6 +287,8 @@ export default function App() {
     setState(prev => ({
       ...prev,
       messages: [...prev.messages, userMessage],
+      streamingText: '',
+      streamingReasoning: '',
       isLoading: true
     }));
 
@@ -202,7 +306,43 @@ export default function App() {
       }
 
       // Generate AI response with intelligent tool calling
-      const result = await session.generateResponseWithIntelligentTools(message);
+      const controller = new AbortController();
+      turnController.current = controller;
+      const result = await session.generateResponseWithIntelligentTools(
+        message,
+        controller.signal,
+        text => setState(prev => ({ ...prev, streamingText: prev.streamingText + text })),
+        text => setState(prev => ({ ...prev, streamingReasoning: prev.streamingReasoning + text }))
+      );
+
+      if (result.cancelled) {
+        const cancelledMessage = {
+          role: 'system' as const,
+          content: result.toolExecutions.length > 0
+            ? `⏹️  Cancelled (after running: ${result.toolExecutions.map(te => te.toolName).join(', ')})`
+            : '⏹️  Cancelled',
+          timestamp: new Date()
+        };
+
+        setState(prev => ({
+          ...prev,
+          // Keep whatever had streamed before the cancel
+          messages: [
+            ...prev.messages,
+            ...(prev.streamingText ? [{
+              role: 'assistant' as const,
+              content: prev.streamingText,
+              timestamp: new Date(),
+              reasoning: prev.streamingReasoning || undefined
+            }] : []),
+            cancelledMessage
+          ],
+          streamingText: '',
+          streamingReasoning: '',
+          isLoading: false
+        }));
+        return;
+      }
       
       // Add execution info if tools were used
       let content = result.response;
@@ -216,12 +356,22 @@ export default function App() {
         role: 'assistant' as const,
         content,
         timestamp: new Date(),
-        toolExecutions: result.toolExecutions
+        toolExecutions: result.toolExecutions,
+        reasoning: result.reasoning,
+        profile: result.modelStats?.profile
       };
 
+      const warningMessages = (result.warnings || []).map(warning => ({
+        role: 'system' as const,
+        content: `⚠️  ${warning}`,
+        timestamp: new Date()
+      }));
+
       setState(prev => ({
         ...prev,
-        messages: [...prev.messages, aiMessage],
+        messages: [...prev.messages, aiMessage, ...warningMessages],
+        streamingText: '',
+        streamingReasoning: '',
         isLoading: false
       }));
 
@@ -235,8 +385,12 @@ export default function App() {
       setState(prev => ({
         ...prev,
         messages: [...prev.messages, errorMessage],
+        streamingText: '',
+        streamingReasoning: '',
         isLoading: false
       }));
+    } finally {
+      turnController.current = null;
     }
   }, [session, state.isLoading]);
 
@@ -258,10 +412,15 @@ export default function App() {
 /h - Show this help
 /m - Switch models  
 /s - Settings
+/p - Next parameter profile
+/r - Show or hide reasoning
+/u - Undo the last turn's file changes
+/w - Rewind files to before an earlier turn
 /c - Clear session
 /q - Quit
 
-Type naturally to chat with AI. Use Ctrl+C or ESC to exit.`,
+Type naturally to chat with AI. ESC cancels a response, Ctrl+C exits when idle.
+Ctrl+O expands or collapses reasoning.`,
       timestamp: new Date()
     };
 
@@ -326,6 +485,86 @@ Type naturally to chat with AI. Use Ctrl+C or ESC to exit.`,
     }));
   };
 
+  const nextParameterProfile = async () => {
+    setState(prev => ({ ...prev, showSlashMenu: false }));
+    if (!session) return;
+
+    let content: string;
+    try {
+      const [names, current] = await Promise.all([session.listParameterProfiles(), session.getParameterProfile()]);
+      const next = names[(names.indexOf(current.name) + 1) % names.length];
+      const profile = await session.setParameterProfile(next);
+      const parameters = Object.entries(profile.parameters)
+        .map(([name, value]) => `${name}=${Array.isArray(value) ? value.join('|') : value}`)
+        .join(' ');
+      content = `🎛️  Profile: ${profile.name} (${parameters || "model's defaults"}) - available: ${names.join(', ')}`;
+    } catch (error) {
+      content = `❌ ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    setState(prev => ({
+      ...prev,
+      messages: [...prev.messages, { role: 'system', content, timestamp: new Date() }]
+    }));
+  };
+
+  const toggleReasoning = () => {
+    const showReasoning = !state.showReasoning;
+    session?.updateSettings({ showReasoning });
+
+    setState(prev => ({
+      ...prev,
+      showReasoning,
+      messages: [...prev.messages, {
+        role: 'system',
+        content: showReasoning ? '💭 Reasoning shown' : '💭 Reasoning hidden',
+        timestamp: new Date()
+      }],
+      showSlashMenu: false
+    }));
+  };
+
+  const undoLastTurn = async () => {
+    setState(prev => ({ ...prev, showSlashMenu: false }));
+    if (!session) return;
+
+    let content: string;
+    try {
+      content = describeRestore(await session.undoLastTurn());
+    } catch (error) {
+      content = `❌ ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    setState(prev => ({
+      ...prev,
+      messages: [...prev.messages, { role: 'system', content, timestamp: new Date() }]
+    }));
+  };
+
+  const showRewindMenu = () => {
+    setState(prev => ({
+      ...prev,
+      showRewindSelector: true,
+      showSlashMenu: false
+    }));
+  };
+
+  const handleRewind = async (checkpoint: Checkpoint) => {
+    if (!session) return;
+
+    let content: string;
+    try {
+      content = describeRestore(await session.rewindTo(checkpoint.id));
+    } catch (error) {
+      content = `❌ ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    setState(prev => ({
+      ...prev,
+      messages: [...prev.messages, { role: 'system', content, timestamp: new Date() }]
+    }));
+  };
+
   const clearSession = () => {
     if (session) {
       session.clearHistory();
@@ -348,10 +587,19 @@ Type naturally to chat with AI. Use Ctrl+C or ESC to exit.`,
         model={state.currentModel}
         sessionId={state.sessionId}
         isLoading={state.isLoading}
+        residentModels={state.residentModels}
+        activeHost={state.activeHost}
       />
       
       <Box flexGrow={1}>
-        <ChatView messages={state.messages} isLoading={state.isLoading} />
+        <ChatView
+          messages={state.messages}
+          isLoading={state.isLoading}
+          streamingText={state.streamingText}
+          streamingReasoning={state.streamingReasoning}
+          showReasoning={state.showReasoning}
+          expandReasoning={state.expandReasoning}
+        />
       </Box>
 
       {state.showSlashMenu && (
@@ -386,24 +634,56 @@ Type naturally to chat with AI. Use Ctrl+C or ESC to exit.`,
       {state.showModelSelector && (
         <ModelSelector
           currentModel={state.currentModel}
+          onListModels={async () => {
+            if (!session) {
+              throw new Error('Session not ready');
+            }
+            return await session.getAvailableModels();
+          }}
           onModelSelect={handleModelSelect}
+          onPullModel={session?.getBackendKind() === 'ollama' ? (model, signal) => session.pullModel(model, signal) : undefined}
+          onDeleteModel={session?.getBackendKind() === 'ollama' ? model => session.deleteModel(model) : undefined}
+          onCreateModel={session?.getBackendKind() === 'ollama'
+            ? (model, baseModel, parameters, signal) => session.createModel(model, baseModel, parameters, signal)
+            : undefined}
+          onCopyModel={session?.getBackendKind() === 'ollama' ? (source, destination) => session.copyModel(source, destination) : undefined}
           onClose={() => setState(prev => ({ ...prev, showModelSelector: false }))}
         />
       )}
 
+      {state.showRewindSelector && session && (
+        <RewindSelector
+          onListCheckpoints={() => session.listCheckpoints()}
+          onRewind={handleRewind}
+          onClose={() => setState(prev => ({ ...prev, showRewindSelector: false }))}
+        />
+      )}
+
       <InputPrompt 
         onSubmit={handleMessageSubmit}
-        disabled={state.isLoading || state.showSlashMenu || state.showPermissionDialog || state.showTaskTracker || state.showModelSelector}
+        disabled={state.isLoading || state.showSlashMenu || state.showPermissionDialog || state.showTaskTracker || state.showModelSelector || state.showRewindSelector}
         value={input}
         onChange={setInput}
         placeholder={
           state.showSlashMenu ? "Select command..." :
           state.showTaskTracker ? "Viewing tasks..." :
           state.showModelSelector ? "Select model..." :
+          state.showRewindSelector ? "Select a turn..." :
           state.currentTasks.length > 0 ? "Type your message... (Press 't' for tasks)" :
           "Type your message..."
         }
       />
     </Box>
   );
+}
+
+/**
+ * What an undo or rewind put back, for the chat
+ */
+function describeRestore(result: RestoreResult): string {
+  const turns = result.checkpoints.length === 1
+    ? `"${result.checkpoints[0].prompt.split('\n')[0]}"`
+    : `${result.checkpoints.length} turns`;
+  return `⏪ Reverted ${turns} - ${result.files.length} ${result.files.length === 1 ? 'file' : 'files'}:\n` +
+    result.files.map(file => `   • ${file}`).join('\n');
 }
\ No newline at end of file
@@ -2,7 +2,9 @@
  * Chat view - renders the conversation history
  *
  * Scrollable message list with timestamps and role indicators.
- * Handles the "thinking..." state when AI is processing
+ * Shows the reply growing as it streams in, or "thinking..." until it starts.
+ * A thinking model's reasoning sits dimmed above its reply, collapsed to
+ * one line unless expanded.
  */
 
 import React from 'react';
@@ -13,21 +15,57 @@ interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  reasoning?: string;
+  /** Parameter profile the reply was generated with */
+  profile?: string;
 }
 
 interface ChatViewProps {
   messages: Message[];
   isLoading: boolean;
+  /** Assistant text received so far for the reply in progress */
+  streamingText?: string;
+  /** Reasoning received so far for the reply in progress */
+  streamingReasoning?: string;
+  /** False hides reasoning entirely */
+  showReasoning?: boolean;
+  /** Show reasoning in full instead of a one-line summary */
+  expandReasoning?: boolean;
 }
 
-export function ChatView({ messages, isLoading }: ChatViewProps) {
+/** Reasoning lines shown while it streams, when collapsed */
+const REASONING_TAIL_LINES = 3;
+
+export function ChatView({
+  messages,
+  isLoading,
+  streamingText,
+  streamingReasoning,
+  showReasoning = true,
+  expandReasoning = false
+}: ChatViewProps) {
+  const liveReasoning = showReasoning ? streamingReasoning : undefined;
+
   return (
     <Box flexDirection="column" paddingX={1} paddingY={0}>
       {messages.map((message, index) => (
-        <MessageItem key={index} message={message} />
+        <MessageItem
+          key={index}
+          message={message}
+          showReasoning={showReasoning}
+          expandReasoning={expandReasoning}
+        />
       ))}
       
-      {isLoading && (
+      {isLoading && streamingText && (
+        <StreamingMessage text={streamingText} />
+      )}
+
+      {isLoading && !streamingText && liveReasoning && (
+        <StreamingReasoning text={liveReasoning} expanded={expandReasoning} />
+      )}
+
+      {isLoading && !streamingText && !liveReasoning && (
         <Box marginTop={1}>
           <Text color="yellow">🤔 Thinking...</Text>
         </Box>
@@ -36,7 +74,11 @@ export function ChatView({ messages, isLoading }: ChatViewProps) {
   );
 }
 
-function MessageItem({ message }: { message: Message }) {
+function MessageItem({ message, showReasoning, expandReasoning }: {
+  message: Message;
+  showReasoning: boolean;
+  expandReasoning: boolean;
+}) {
   const timeStr = format(message.timestamp, 'HH:mm:ss');
   
   const getMessageColor = (role: string) => {
@@ -64,10 +106,61 @@ function MessageItem({ message }: { message: Message }) {
         <Text color={getMessageColor(message.role)}>
           {getMessagePrefix(message.role)} {message.role}:
         </Text>
+        {message.profile && <Text color="gray"> [{message.profile}]</Text>}
       </Box>
+      {showReasoning && message.reasoning && (
+        <ReasoningSection text={message.reasoning} expanded={expandReasoning} />
+      )}
       <Box paddingLeft={2}>
         <Text wrap="wrap">{message.content}</Text>
       </Box>
     </Box>
   );
+}
+
+function ReasoningSection({ text, expanded }: { text: string; expanded: boolean }) {
+  const lineCount = text.split('\n').length;
+
+  return (
+    <Box paddingLeft={2} flexDirection="column">
+      <Text dimColor>
+        💭 Reasoning ({lineCount} {lineCount === 1 ? 'line' : 'lines'}) - Ctrl+O to {expanded ? 'collapse' : 'expand'}
+      </Text>
+      {expanded && (
+        <Box paddingLeft={2}>
+          <Text dimColor wrap="wrap">{text}</Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+function StreamingReasoning({ text, expanded }: { text: string; expanded: boolean }) {
+  const shown = expanded ? text : text.trim().split('\n').slice(-REASONING_TAIL_LINES).join('\n');
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text color="yellow">💭 Thinking...</Text>
+      <Box paddingLeft={2}>
+        <Text dimColor wrap="wrap">{shown}</Text>
+      </Box>
+    </Box>
+  );
+}
+
+function StreamingMessage({ text }: { text: string }) {
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      <Box>
+        <Text color="green">🤖 assistant:</Text>
+        <Text color="gray"> (streaming)</Text>
+      </Box>
+      <Box paddingLeft={2}>
+        <Text wrap="wrap">
+          {text}
+          <Text color="green">▌</Text>
+        </Text>
+      </Box>
+    </Box>
+  );
 }
\ No newline at end of file
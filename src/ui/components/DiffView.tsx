@@ -0,0 +1,71 @@
+/**
+ * Diff View Component
+ *
+ * Colored unified diff of a proposed file change, showing a window of
+ * rows that the permission dialog scrolls
+ */
+
+import React from 'react';
+import { Box, Text, TextProps } from 'ink';
+import { FileDiff } from '../../utils/diff.js';
+
+/** Rows of diff shown at once */
+export const DIFF_VIEW_HEIGHT = 20;
+
+interface DiffRow {
+  text: string;
+  color?: TextProps['color'];
+}
+
+interface DiffViewProps {
+  diff: FileDiff;
+  /** First row shown */
+  scrollOffset: number;
+}
+
+/**
+ * Flatten a diff into display rows - hunk headers and marked lines
+ */
+export function getDiffRows(diff: FileDiff): DiffRow[] {
+  return diff.hunks.flatMap((hunk): DiffRow[] => [
+    { text: hunk.header, color: 'cyan' },
+    ...hunk.lines.flatMap((line): DiffRow[] => [
+      {
+        text: `${line.type}${line.text}`,
+        color: line.type === '+' ? 'green' : line.type === '-' ? 'red' : undefined
+      },
+      ...(line.noNewline ? [{ text: '\\ No newline at end of file', color: 'gray' }] : [])
+    ])
+  ]);
+}
+
+export function DiffView({ diff, scrollOffset }: DiffViewProps) {
+  const rows = getDiffRows(diff);
+  const visible = rows.slice(scrollOffset, scrollOffset + DIFF_VIEW_HEIGHT);
+
+  return (
+    <Box flexDirection="column" borderStyle="single" borderColor="gray" paddingX={1}>
+      <Box>
+        <Text color="white">{diff.filePath}{diff.isNewFile ? ' (new file)' : ''} </Text>
+        <Text color="green">+{diff.added}</Text>
+        <Text color="red"> -{diff.removed}</Text>
+      </Box>
+
+      {rows.length === 0 ? (
+        <Text color="gray">No changes - the content is the same</Text>
+      ) : (
+        visible.map((row, index) => (
+          <Text key={scrollOffset + index} color={row.color} wrap="truncate-end">
+            {row.text || ' '}
+          </Text>
+        ))
+      )}
+
+      {rows.length > DIFF_VIEW_HEIGHT && (
+        <Text color="gray">
+          Lines {scrollOffset + 1}-{Math.min(scrollOffset + DIFF_VIEW_HEIGHT, rows.length)} of {rows.length} (PgUp/PgDn or Shift+↑↓ to scroll)
+        </Text>
+      )}
+    </Box>
+  );
+}
\ No newline at end of file
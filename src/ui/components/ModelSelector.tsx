@@ -1,33 +1,69 @@
 /**
  * Model Selector Component
  * 
- * Allows users to select and switch between available Ollama models
+ * Allows users to select and switch between the models the backend serves,
+ * and for Ollama, pull new ones with live progress, derive project-specific
+ * ones, alias and delete them
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Box, Text, useInput } from 'ink';
-
-export interface OllamaModel {
-  name: string;
-  size: string;
-  modified: string;
-  digest: string;
-}
+import { OllamaPullProgress, isAbortError } from '../../ollama/client.js';
+import { BackendModel } from '../../interfaces.js';
+import { ModelfileParameters, parseModelfileParameters } from '../../ollama/modelfile.js';
 
 interface ModelSelectorProps {
   currentModel: string;
+  onListModels: () => Promise<BackendModel[]>;
   onModelSelect: (model: string) => void;
   onClose: () => void;
+  onPullModel?: (model: string, signal: AbortSignal) => AsyncIterable<OllamaPullProgress>;
+  onDeleteModel?: (model: string) => Promise<void>;
+  onCreateModel?: (
+    model: string,
+    baseModel: string,
+    parameters: ModelfileParameters,
+    signal: AbortSignal
+  ) => AsyncIterable<OllamaPullProgress>;
+  onCopyModel?: (source: string, destination: string) => Promise<void>;
 }
 
-export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSelectorProps) {
-  const [models, setModels] = useState<OllamaModel[]>([]);
+type SelectorMode =
+  | 'list'
+  | 'pull-input'
+  | 'pulling'
+  | 'confirm-delete'
+  | 'create-input'
+  | 'creating'
+  | 'alias-input';
+
+const PROGRESS_BAR_WIDTH = 30;
+
+export function ModelSelector({
+  currentModel,
+  onListModels,
+  onModelSelect,
+  onClose,
+  onPullModel,
+  onDeleteModel,
+  onCreateModel,
+  onCopyModel
+}: ModelSelectorProps) {
+  const [models, setModels] = useState<BackendModel[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<SelectorMode>('list');
+  const [textInput, setTextInput] = useState('');
+  const [progress, setProgress] = useState<OllamaPullProgress | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const pullController = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadModels();
+
+    // Closing the selector mid-download cancels it
+    return () => pullController.current?.abort();
   }, []);
 
   const loadModels = async () => {
@@ -35,30 +71,148 @@ export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSel
       setLoading(true);
       setError(null);
       
-      // Fetch models from Ollama API
-      const response = await fetch('http://localhost:11434/api/tags');
-      if (!response.ok) {
-        throw new Error('Failed to connect to Ollama. Is Ollama running?');
-      }
-      
-      const data = await response.json();
-      const modelList = data.models || [];
+      // Ask whichever backend the session is using
+      const modelList = await onListModels();
       setModels(modelList);
       
       // Set selected index to current model
-      const currentIndex = modelList.findIndex((m: OllamaModel) => m.name === currentModel);
+      const currentIndex = modelList.findIndex(m => m.name === currentModel);
       if (currentIndex !== -1) {
         setSelectedIndex(currentIndex);
       }
       
       setLoading(false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load models');
+      setError(`Failed to load models: ${err instanceof Error ? err.message : String(err)}. Is the model server running?`);
       setLoading(false);
     }
   };
 
+  const createModel = async (line: string) => {
+    if (!onCreateModel) return;
+
+    const [modelName, ...args] = line.split(/\s+/);
+    const baseModel = models[selectedIndex].name;
+    let parameters: ModelfileParameters;
+    try {
+      parameters = parseModelfileParameters(args);
+    } catch (err) {
+      setNotice(`❌ ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    pullController.current = controller;
+    setMode('creating');
+    setProgress({ status: 'starting' });
+    setNotice(null);
+
+    try {
+      for await (const event of onCreateModel(modelName, baseModel, parameters, controller.signal)) {
+        setProgress(event);
+      }
+      setNotice(`✅ Created ${modelName} from ${baseModel}`);
+      await loadModels();
+    } catch (err) {
+      setNotice(isAbortError(err)
+        ? `⏹️  Creation of ${modelName} cancelled`
+        : `❌ ${err instanceof Error ? err.message : 'Failed to create model'}`);
+    } finally {
+      pullController.current = null;
+      setProgress(null);
+      setMode('list');
+    }
+  };
+
+  const copyModel = async (destination: string) => {
+    if (!onCopyModel) return;
+
+    const source = models[selectedIndex].name;
+    setMode('list');
+    try {
+      await onCopyModel(source, destination);
+      setNotice(`🏷️  ${destination} now points at ${source}`);
+      await loadModels();
+    } catch (err) {
+      setNotice(`❌ ${err instanceof Error ? err.message : 'Failed to copy model'}`);
+    }
+  };
+
+  const pullModel = async (modelName: string) => {
+    if (!onPullModel) return;
+
+    const controller = new AbortController();
+    pullController.current = controller;
+    setMode('pulling');
+    setProgress({ status: 'starting' });
+    setNotice(null);
+
+    try {
+      for await (const event of onPullModel(modelName, controller.signal)) {
+        setProgress(event);
+      }
+      setNotice(`✅ Pulled ${modelName}`);
+      await loadModels();
+    } catch (err) {
+      setNotice(isAbortError(err)
+        ? `⏹️  Pull of ${modelName} cancelled`
+        : `❌ ${err instanceof Error ? err.message : 'Failed to pull model'}`);
+    } finally {
+      pullController.current = null;
+      setProgress(null);
+      setMode('list');
+    }
+  };
+
+  const deleteModel = async (modelName: string) => {
+    if (!onDeleteModel) return;
+
+    setMode('list');
+    try {
+      await onDeleteModel(modelName);
+      setNotice(`🗑️  Deleted ${modelName}`);
+      await loadModels();
+    } catch (err) {
+      setNotice(`❌ ${err instanceof Error ? err.message : 'Failed to delete model'}`);
+    }
+  };
+
   useInput((input, key) => {
+    if (mode === 'pulling' || mode === 'creating') {
+      if (key.escape) {
+        pullController.current?.abort();
+      }
+      return;
+    }
+
+    if (mode === 'pull-input' || mode === 'create-input' || mode === 'alias-input') {
+      if (key.escape) {
+        setNotice(null);
+        setMode('list');
+      } else if (key.return) {
+        const value = textInput.trim();
+        if (value) {
+          if (mode === 'pull-input') pullModel(value);
+          else if (mode === 'create-input') createModel(value);
+          else copyModel(value);
+        }
+      } else if (key.backspace || key.delete) {
+        setTextInput(prev => prev.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setTextInput(prev => prev + input);
+      }
+      return;
+    }
+
+    if (mode === 'confirm-delete') {
+      if (input === 'y' || input === 'Y') {
+        deleteModel(models[selectedIndex].name);
+      } else if (input === 'n' || input === 'N' || key.escape) {
+        setMode('list');
+      }
+      return;
+    }
+
     if (key.escape) {
       onClose();
       return;
@@ -66,6 +220,13 @@ export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSel
 
     if (loading) return;
 
+    if (input === 'p' && onPullModel) {
+      setTextInput('');
+      setNotice(null);
+      setMode('pull-input');
+      return;
+    }
+
     if (key.upArrow) {
       setSelectedIndex(prev => (prev - 1 + models.length) % models.length);
       return;
@@ -88,6 +249,30 @@ export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSel
       loadModels();
       return;
     }
+
+    if (input === 'c' && onCreateModel && models[selectedIndex]) {
+      setTextInput('');
+      setNotice(null);
+      setMode('create-input');
+      return;
+    }
+
+    if (input === 'a' && onCopyModel && models[selectedIndex]) {
+      setTextInput('');
+      setNotice(null);
+      setMode('alias-input');
+      return;
+    }
+
+    if (input === 'd' && onDeleteModel && models[selectedIndex]) {
+      if (models[selectedIndex].name === currentModel) {
+        setNotice('⚠️  Switch to another model before deleting the current one');
+      } else {
+        setNotice(null);
+        setMode('confirm-delete');
+      }
+      return;
+    }
   });
 
   if (loading) {
@@ -126,6 +311,142 @@ export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSel
     );
   }
 
+  if (mode === 'pull-input') {
+    return (
+      <Box 
+        borderStyle="single"
+        borderColor="blue"
+        padding={1}
+        marginY={1}
+      >
+        <Box flexDirection="column">
+          <Text color="blue" bold>⬇️  Pull Model</Text>
+          <Text color="gray">Enter a model name from ollama.com/library, e.g. qwen3:8b</Text>
+          <Box marginTop={1}>
+            <Text color="cyan">Model: </Text>
+            <Text color="white">{textInput}</Text>
+            <Text color="gray">▌</Text>
+          </Box>
+          <Box marginTop={1}>
+            <Text color="gray">Enter to pull, ESC to go back</Text>
+          </Box>
+        </Box>
+      </Box>
+    );
+  }
+
+  if ((mode === 'create-input' || mode === 'alias-input') && models[selectedIndex]) {
+    const creating = mode === 'create-input';
+
+    return (
+      <Box 
+        borderStyle="single"
+        borderColor="blue"
+        padding={1}
+        marginY={1}
+      >
+        <Box flexDirection="column">
+          <Text color="blue" bold>
+            {creating ? '🛠️  Create Model' : '🏷️  Alias Model'} from {models[selectedIndex].name}
+          </Text>
+          <Text color="gray">
+            {creating
+              ? 'Bakes in the system prompt and this project\'s context. Optional: temperature=0.2 num_ctx=16384 stop=...'
+              : 'Enter another name for the same model, e.g. coder:latest'}
+          </Text>
+          <Box marginTop={1}>
+            <Text color="cyan">Name: </Text>
+            <Text color="white">{textInput}</Text>
+            <Text color="gray">▌</Text>
+          </Box>
+          {notice && (
+            <Box marginTop={1}>
+              <Text color="white">{notice}</Text>
+            </Box>
+          )}
+          <Box marginTop={1}>
+            <Text color="gray">Enter to {creating ? 'create' : 'copy'}, ESC to go back</Text>
+          </Box>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (mode === 'creating') {
+    return (
+      <Box 
+        borderStyle="single"
+        borderColor="blue"
+        padding={1}
+        marginY={1}
+      >
+        <Box flexDirection="column">
+          <Text color="blue" bold>🛠️  Creating {textInput.trim().split(/\s+/)[0]}</Text>
+          <Text color="yellow">{progress?.status || 'starting'}</Text>
+          <Box marginTop={1}>
+            <Text color="gray">Press ESC to cancel</Text>
+          </Box>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (mode === 'pulling') {
+    const hasBytes = !!progress?.total && progress.completed !== undefined;
+    const ratio = hasBytes ? Math.min(1, progress!.completed! / progress!.total!) : 0;
+    const filled = Math.round(ratio * PROGRESS_BAR_WIDTH);
+
+    return (
+      <Box 
+        borderStyle="single"
+        borderColor="blue"
+        padding={1}
+        marginY={1}
+      >
+        <Box flexDirection="column">
+          <Text color="blue" bold>⬇️  Pulling {textInput.trim()}</Text>
+          <Text color="yellow">{progress?.status || 'starting'}</Text>
+          {hasBytes && (
+            <Box flexDirection="column" marginTop={1}>
+              <Text>
+                <Text color="green">{'█'.repeat(filled)}</Text>
+                <Text color="gray">{'░'.repeat(PROGRESS_BAR_WIDTH - filled)}</Text>
+                <Text color="white"> {Math.round(ratio * 100)}%</Text>
+              </Text>
+              <Text color="gray">
+                {formatSize(progress!.completed)} / {formatSize(progress!.total)}
+              </Text>
+            </Box>
+          )}
+          <Box marginTop={1}>
+            <Text color="gray">Press ESC to cancel</Text>
+          </Box>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (mode === 'confirm-delete' && models[selectedIndex]) {
+    return (
+      <Box 
+        borderStyle="single"
+        borderColor="red"
+        padding={1}
+        marginY={1}
+      >
+        <Box flexDirection="column">
+          <Text color="red" bold>🗑️  Delete Model</Text>
+          <Text color="white">
+            Delete {models[selectedIndex].name} ({formatSize(models[selectedIndex].size)}) from disk?
+          </Text>
+          <Box marginTop={1}>
+            <Text color="gray">Press 'y' to delete, 'n' or ESC to keep it</Text>
+          </Box>
+        </Box>
+      </Box>
+    );
+  }
+
   if (models.length === 0) {
     return (
       <Box 
@@ -138,8 +459,15 @@ export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSel
           <Text color="yellow" bold>⚠️ No Models Found</Text>
           <Text color="white">No Ollama models are installed.</Text>
           <Text color="gray">Install models with: ollama pull &lt;model-name&gt;</Text>
+          {notice && (
+            <Box marginTop={1}>
+              <Text color="white">{notice}</Text>
+            </Box>
+          )}
           <Box marginTop={1}>
-            <Text color="gray">Press 'r' to refresh, ESC to cancel</Text>
+            <Text color="gray">
+              Press {onPullModel ? "'p' to pull a model, " : ''}'r' to refresh, ESC to cancel
+            </Text>
           </Box>
         </Box>
       </Box>
@@ -175,7 +503,7 @@ export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSel
                 {isSelected && (
                   <Box marginLeft={4}>
                     <Text color="gray">
-                      Size: {formatSize(model.size)} | Modified: {formatDate(model.modified)}
+                      Size: {formatSize(model.size)} | Modified: {formatDate(model.modified_at)}
                     </Text>
                   </Box>
                 )}
@@ -184,30 +512,44 @@ export function ModelSelector({ currentModel, onModelSelect, onClose }: ModelSel
           })}
         </Box>
         
+        {notice && (
+          <Box marginTop={1}>
+            <Text color="white">{notice}</Text>
+          </Box>
+        )}
+
         <Box marginTop={1}>
-          <Text color="gray">💡 Press 'r' to refresh model list</Text>
+          <Text color="gray">
+            💡 Press 'r' to refresh model list
+            {onPullModel ? ", 'p' to pull a new model" : ''}
+            {onCreateModel ? ", 'c' to create a project model from the selected one" : ''}
+            {onCopyModel ? ", 'a' to alias it" : ''}
+            {onDeleteModel ? ", 'd' to delete the selected one" : ''}
+          </Text>
         </Box>
       </Box>
     </Box>
   );
 }
 
-function formatSize(sizeStr: string): string {
-  try {
-    const size = parseInt(sizeStr);
-    if (size > 1024 * 1024 * 1024) {
-      return `${(size / (1024 * 1024 * 1024)).toFixed(1)}GB`;
-    } else if (size > 1024 * 1024) {
-      return `${(size / (1024 * 1024)).toFixed(1)}MB`;
-    } else {
-      return `${size}B`;
-    }
-  } catch {
-    return sizeStr;
+function formatSize(size?: number): string {
+  // OpenAI-compatible servers don't report sizes
+  if (size === undefined) {
+    return 'unknown';
+  }
+  if (size > 1024 * 1024 * 1024) {
+    return `${(size / (1024 * 1024 * 1024)).toFixed(1)}GB`;
+  } else if (size > 1024 * 1024) {
+    return `${(size / (1024 * 1024)).toFixed(1)}MB`;
+  } else {
+    return `${size}B`;
   }
 }
 
-function formatDate(dateStr: string): string {
+function formatDate(dateStr?: string): string {
+  if (!dateStr) {
+    return 'unknown';
+  }
   try {
     return new Date(dateStr).toLocaleDateString();
   } catch {
@@ -1,11 +1,13 @@
 /**
  * Permission Dialog Component
  * 
- * Shows permission requests with arrow key navigation like gemini-cli
+ * Shows permission requests with arrow key navigation like gemini-cli.
+ * File changes are shown as a scrollable diff.
  */
 
 import React, { useState } from 'react';
 import { Box, Text, useInput } from 'ink';
+import { DiffView, DIFF_VIEW_HEIGHT, getDiffRows } from './DiffView.js';
 
 interface PermissionDialogProps {
   request: any;
@@ -20,6 +22,12 @@ export function PermissionDialog({ request, onClose }: PermissionDialogProps) {
   ];
 
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [diffOffset, setDiffOffset] = useState(0);
+  const maxDiffOffset = request.diff ? Math.max(getDiffRows(request.diff).length - DIFF_VIEW_HEIGHT, 0) : 0;
+
+  const scrollDiff = (rows: number) => {
+    setDiffOffset(prev => Math.min(Math.max(prev + rows, 0), maxDiffOffset));
+  };
 
   useInput((input, key) => {
     if (key.escape) {
@@ -30,6 +38,16 @@ export function PermissionDialog({ request, onClose }: PermissionDialogProps) {
       return;
     }
 
+    if (key.pageUp || (key.shift && key.upArrow)) {
+      scrollDiff(key.pageUp ? -DIFF_VIEW_HEIGHT : -1);
+      return;
+    }
+
+    if (key.pageDown || (key.shift && key.downArrow)) {
+      scrollDiff(key.pageDown ? DIFF_VIEW_HEIGHT : 1);
+      return;
+    }
+
     if (key.upArrow) {
       setSelectedIndex(prev => (prev - 1 + options.length) % options.length);
       return;
@@ -86,7 +104,7 @@ export function PermissionDialog({ request, onClose }: PermissionDialogProps) {
           <Text color="white">{request.description || request.reason || 'No description available'}</Text>
         </Box>
 
-        {request.params && Object.keys(request.params).length > 0 && (
+        {!request.diff && request.params && Object.keys(request.params).length > 0 && (
           <Box marginTop={1} borderStyle="single" borderColor="cyan" padding={1}>
             <Text color="cyan" bold>Command Details:</Text>
             {Object.entries(request.params).map(([key, value]) => (
@@ -106,7 +124,13 @@ export function PermissionDialog({ request, onClose }: PermissionDialogProps) {
           </Box>
         )}
 
-        {request.preview && (
+        {request.diff && (
+          <Box marginTop={1}>
+            <DiffView diff={request.diff} scrollOffset={diffOffset} />
+          </Box>
+        )}
+
+        {!request.diff && request.preview && (
           <Box marginTop={1} borderStyle="single" borderColor="gray" padding={1}>
             <Text color="gray">Preview:</Text>
             <Text wrap="wrap">{request.preview}</Text>
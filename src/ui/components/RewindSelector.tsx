@@ -0,0 +1,132 @@
+/**
+ * Rewind Selector Component
+ *
+ * Lists the turns that changed files, newest first, and picks one to
+ * rewind to - its changes and every later turn's are reverted
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import path from 'path';
+import { Checkpoint } from '../../operations/checkpoints.js';
+
+interface RewindSelectorProps {
+  onListCheckpoints: () => Promise<Checkpoint[]>;
+  onRewind: (checkpoint: Checkpoint) => void;
+  onClose: () => void;
+}
+
+/** Files listed under the selected turn */
+const MAX_LISTED_FILES = 5;
+
+export function RewindSelector({ onListCheckpoints, onRewind, onClose }: RewindSelectorProps) {
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onListCheckpoints()
+      .then(setCheckpoints)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onClose();
+      return;
+    }
+
+    if (loading || checkpoints.length === 0) return;
+
+    if (key.upArrow) {
+      setSelectedIndex(prev => (prev - 1 + checkpoints.length) % checkpoints.length);
+      return;
+    }
+
+    if (key.downArrow) {
+      setSelectedIndex(prev => (prev + 1) % checkpoints.length);
+      return;
+    }
+
+    if (key.return) {
+      onRewind(checkpoints[selectedIndex]);
+      onClose();
+      return;
+    }
+  });
+
+  if (loading || error || checkpoints.length === 0) {
+    return (
+      <Box
+        borderStyle="single"
+        borderColor={error ? 'red' : 'magenta'}
+        padding={1}
+        marginY={1}
+      >
+        <Box flexDirection="column">
+          <Text color="magenta" bold>⏪ Rewind</Text>
+          <Text color={error ? 'red' : 'white'}>
+            {loading ? 'Loading checkpoints...' : error ?? 'No file changes have been recorded yet.'}
+          </Text>
+          <Text color="gray">Press ESC to close</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const selected = checkpoints[selectedIndex];
+
+  return (
+    <Box
+      borderStyle="single"
+      borderColor="magenta"
+      padding={1}
+      marginY={1}
+    >
+      <Box flexDirection="column">
+        <Text color="magenta" bold>⏪ Rewind to before a turn</Text>
+        <Text color="gray">Use ↑↓ to navigate, Enter to revert, ESC to cancel</Text>
+
+        <Box flexDirection="column" marginTop={1}>
+          {checkpoints.map((checkpoint, index) => {
+            const isSelected = index === selectedIndex;
+            // Newer turns are reverted along with the selected one
+            const isReverted = index < selectedIndex;
+
+            return (
+              <Box key={checkpoint.id}>
+                <Text
+                  color={isSelected ? 'black' : isReverted ? 'yellow' : 'white'}
+                  backgroundColor={isSelected ? 'magenta' : undefined}
+                  wrap="truncate-end"
+                >
+                  {isSelected ? '▶ ' : '  '}
+                  {new Date(checkpoint.createdAt).toLocaleTimeString()} "{checkpoint.prompt.split('\n')[0]}"
+                  {' '}({checkpoint.files.length} {checkpoint.files.length === 1 ? 'file' : 'files'})
+                </Text>
+              </Box>
+            );
+          })}
+        </Box>
+
+        <Box flexDirection="column" marginTop={1}>
+          {selected.files.slice(0, MAX_LISTED_FILES).map(file => (
+            <Text key={file.path} color="gray">
+              {file.existed ? '  restore ' : '  remove  '}{path.relative(process.cwd(), file.path)}
+            </Text>
+          ))}
+          {selected.files.length > MAX_LISTED_FILES && (
+            <Text color="gray">  ... {selected.files.length - MAX_LISTED_FILES} more</Text>
+          )}
+          {selectedIndex > 0 && (
+            <Text color="yellow">
+              Also reverts the {selectedIndex} newer {selectedIndex === 1 ? 'turn' : 'turns'} above
+            </Text>
+          )}
+        </Box>
+      </Box>
+    </Box>
+  );
+}
\ No newline at end of file
@@ -17,6 +17,10 @@ export function SlashMenu({ onClose, onSelectCommand }: SlashMenuProps) {
     { key: 'h', label: 'Show help', description: 'Display help information' },
     { key: 'm', label: 'Switch models', description: 'Change the active AI model' },
     { key: 's', label: 'Settings', description: 'Configure Numidium-Local settings' },
+    { key: 'p', label: 'Parameter profile', description: 'Switch to the next generation parameter profile for this model' },
+    { key: 'r', label: 'Toggle reasoning', description: 'Show or hide what thinking models reason before answering' },
+    { key: 'u', label: 'Undo', description: 'Revert the files the last turn changed' },
+    { key: 'w', label: 'Rewind', description: 'Pick an earlier turn and revert files to before it' },
     { key: 'c', label: 'Clear session', description: 'Clear conversation history' },
     { key: 'q', label: 'Quit', description: 'Exit Numidium-Local' }
   ];
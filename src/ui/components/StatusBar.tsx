@@ -1,19 +1,24 @@
 /**
  * Status Bar Component
  * 
- * Shows current model, session info, and connection status
+ * Shows current model, models loaded in memory, the serving host, session info, and connection status
  */
 
 import React from 'react';
 import { Box, Text } from 'ink';
+import { OllamaRunningModel } from '../../ollama/client.js';
 
 interface StatusBarProps {
   model: string;
   sessionId: string;
   isLoading: boolean;
+  /** Models Ollama currently holds in memory, from /api/ps */
+  residentModels?: OllamaRunningModel[];
+  /** The Ollama server chat requests are going to */
+  activeHost?: string;
 }
 
-export function StatusBar({ model, sessionId, isLoading }: StatusBarProps) {
+export function StatusBar({ model, sessionId, isLoading, residentModels, activeHost }: StatusBarProps) {
   const shortSessionId = sessionId.slice(-8);
   const status = isLoading ? '🔄' : '✅';
   
@@ -28,6 +33,22 @@ export function StatusBar({ model, sessionId, isLoading }: StatusBarProps) {
         <Text color="green">🚀 Numidium-Local</Text>
         <Text color="gray"> | </Text>
         <Text color="blue">Model: {model}</Text>
+        {residentModels && (
+          <>
+            <Text color="gray"> | </Text>
+            <Text color={residentModels.some(m => m.name === model) ? 'green' : 'gray'}>
+              🧠 {residentModels.length > 0
+                ? residentModels.map(formatResidentModel).join(', ')
+                : 'No models loaded'}
+            </Text>
+          </>
+        )}
+        {activeHost && (
+          <>
+            <Text color="gray"> | </Text>
+            <Text color="gray">🖥 {activeHost.replace(/^https?:\/\//, '')}</Text>
+          </>
+        )}
       </Box>
       
       <Box>
@@ -39,4 +60,14 @@ export function StatusBar({ model, sessionId, isLoading }: StatusBarProps) {
       </Box>
     </Box>
   );
+}
+
+/**
+ * e.g. "qwen3:latest 5.2GB GPU" or "llama3.2 2.1GB 60% GPU"
+ */
+function formatResidentModel(model: OllamaRunningModel): string {
+  const size = `${(model.size / (1024 * 1024 * 1024)).toFixed(1)}GB`;
+  const gpuShare = model.size > 0 ? Math.round((model.size_vram / model.size) * 100) : 0;
+  const placement = gpuShare >= 100 ? 'GPU' : gpuShare <= 0 ? 'CPU' : `${gpuShare}% GPU`;
+  return `${model.name} ${size} ${placement}`;
 }
\ No newline at end of file
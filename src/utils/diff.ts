@@ -0,0 +1,419 @@
+/**
+ * Unified diffs - parsing patches, applying them to file contents, and
+ * diffing two versions of a file
+ *
+ * Written for patches that come from a model: hunk line counts are often
+ * wrong, so hunks end where the next one starts rather than where their
+ * header says, and a hunk whose line numbers are off is found by its
+ * content instead.
+ */
+
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  /** Followed by "\ No newline at end of file" */
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  /** Where the hunk starts in the original, 1-based - 0 for a new file */
+  oldStart: number;
+  newStart: number;
+  /** The @@ line, for error messages */
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface FilePatch {
+  /** Path before the change - null for a new file */
+  oldPath: string | null;
+  /** Path after the change - null for a deleted file */
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+/**
+ * The difference between a file's current and proposed content
+ */
+export interface FileDiff {
+  filePath: string;
+  /** The file doesn't exist yet - every line is added */
+  isNewFile: boolean;
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** How far from its stated position a hunk is looked for */
+const MAX_HUNK_OFFSET = 1000;
+
+/** Unchanged lines shown around each change */
+const DIFF_CONTEXT = 3;
+
+/**
+ * Largest changed region compared line by line (old lines x new lines) -
+ * bigger rewrites show as everything removed, then everything added
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split a unified diff into per-file patches
+ *
+ * Accepts plain `diff -u` output and git's format, including renames
+ * with no content changes. Throws when there's nothing recognisable.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+  // Lines the open hunk's header says are still to come
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  const startFile = (): FilePatch => {
+    current = { oldPath: null, newPath: null, hunks: [] };
+    patches.push(current);
+    hunk = null;
+    return current;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      const file = startFile();
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (match) {
+        file.oldPath = match[1];
+        file.newPath = match[2];
+      }
+      continue;
+    }
+
+    // A file header is "---" immediately followed by "+++" - inside a hunk
+    // that's still short of its stated lines, they're a removed "-- " line
+    // and an added "++ " one
+    const hunkOpen = hunk !== null && (oldRemaining > 0 || newRemaining > 0);
+    if (!hunkOpen && line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // Git headers have already started this file
+      const started = current as FilePatch | null;
+      const file = started && !hunk && started.hunks.length === 0 ? started : startFile();
+      file.oldPath = parseHeaderPath(line.slice(4));
+      file.newPath = parseHeaderPath(lines[i + 1].slice(4));
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const file = current as FilePatch | null;
+    if (!file) {
+      continue; // Commentary before the first file
+    }
+
+    if (!hunk) {
+      if (line.startsWith('new file mode')) {
+        file.oldPath = null;
+      } else if (line.startsWith('deleted file mode')) {
+        file.newPath = null;
+      } else if (line.startsWith('rename from ')) {
+        file.oldPath = line.slice('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        file.newPath = line.slice('rename to '.length);
+      }
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      hunk = { oldStart: Number(header[1]), newStart: Number(header[3]), header: line, lines: [] };
+      oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+      newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    const currentHunk = hunk as DiffHunk | null;
+    if (!currentHunk) {
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      const previous = currentHunk.lines[currentHunk.lines.length - 1];
+      if (previous) previous.noNewline = true;
+    } else if (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+')) {
+      const type = line[0] as DiffLine['type'];
+      currentHunk.lines.push({ type, text: line.slice(1) });
+      if (type !== '+') oldRemaining--;
+      if (type !== '-') newRemaining--;
+    } else if (line === '' && i < lines.length - 1) {
+      // Editors and models drop the space from blank context lines
+      currentHunk.lines.push({ type: ' ', text: '' });
+      oldRemaining--;
+      newRemaining--;
+    } else {
+      hunk = null;
+    }
+  }
+
+  const files = patches.filter(patch => patch.oldPath !== null || patch.newPath !== null);
+  if (files.length === 0) {
+    throw new Error('No file changes found - expected a unified diff with ---/+++ headers and @@ hunks');
+  }
+  for (const patch of files) {
+    for (const h of patch.hunks) {
+      // Trailing blank lines are usually the end of the patch, not context
+      while (h.lines.length > 0 && h.lines[h.lines.length - 1].type === ' ' && h.lines[h.lines.length - 1].text === '') {
+        h.lines.pop();
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Apply one file's hunks to its content - null for a file that doesn't exist yet
+ *
+ * Throws naming the first hunk that doesn't match; nothing is partly applied.
+ */
+export function applyHunks(original: string | null, hunks: DiffHunk[]): string {
+  const eol = original?.includes('\r\n') ? '\r\n' : '\n';
+  const normalized = (original ?? '').replace(/\r\n/g, '\n');
+  const lines = normalized === '' ? [] : normalized.split('\n');
+  let endsWithNewline = normalized === '' || normalized.endsWith('\n');
+  if (endsWithNewline && lines.length > 0) {
+    lines.pop();
+  }
+
+  let offset = 0;
+  for (const [index, hunk] of hunks.entries()) {
+    const oldLines = hunk.lines.filter(line => line.type !== '+').map(line => line.text);
+    const newLines = hunk.lines.filter(line => line.type !== '-');
+    // A hunk with no original lines inserts after its start line
+    const stated = oldLines.length === 0 ? hunk.oldStart : Math.max(hunk.oldStart - 1, 0);
+    const expected = stated + offset;
+
+    const position = findHunk(lines, oldLines, expected);
+    if (position === -1) {
+      throw new Error(`hunk ${index + 1} (${hunk.header}) doesn't match the file${describeMismatch(lines, oldLines, expected)}`);
+    }
+
+    lines.splice(position, oldLines.length, ...newLines.map(line => line.text));
+    offset = position - stated + newLines.length - oldLines.length;
+
+    // The hunk decides the final newline when it reaches the end of the file
+    if (position + newLines.length === lines.length && hunk.lines.length > 0) {
+      const last = newLines[newLines.length - 1];
+      endsWithNewline = !last?.noNewline;
+    }
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+  return lines.join(eol) + (endsWithNewline ? eol : '');
+}
+
+/**
+ * Diff a file's current content against a proposed one - null for a file
+ * that doesn't exist yet, which comes out as all added lines
+ */
+export function createFileDiff(filePath: string, original: string | null, updated: string): FileDiff {
+  const oldLines = splitDiffLines(original ?? '');
+  const newLines = splitDiffLines(updated);
+  const same = (a: DiffLine, b: DiffLine) => a.text === b.text && !a.noNewline === !b.noNewline;
+
+  // Only the region between the unchanged start and end needs comparing
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && same(oldLines[prefix], newLines[prefix])) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+    same(oldLines[oldLines.length - 1 - suffix], newLines[newLines.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const lines: DiffLine[] = [
+    ...oldLines.slice(0, prefix).map(line => ({ ...line, type: ' ' as const })),
+    ...diffLines(
+      oldLines.slice(prefix, oldLines.length - suffix),
+      newLines.slice(prefix, newLines.length - suffix),
+      same
+    ),
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ ...line, type: ' ' as const }))
+  ];
+
+  return {
+    filePath,
+    isNewFile: original === null,
+    hunks: groupHunks(lines),
+    added: lines.filter(line => line.type === '+').length,
+    removed: lines.filter(line => line.type === '-').length
+  };
+}
+
+/**
+ * Path from a ---/+++ header, without git's a/ b/ prefix or a timestamp
+ */
+function parseHeaderPath(header: string): string | null {
+  const filePath = header.split('\t')[0].trim();
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  return filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * Where a hunk's original lines are - at the stated line if they match
+ * there, otherwise the nearest exact match, then the nearest ignoring
+ * trailing whitespace. -1 when they aren't in the file.
+ */
+function findHunk(lines: string[], oldLines: string[], expected: number): number {
+  const compare = [
+    (a: string, b: string) => a === b,
+    (a: string, b: string) => a.trimEnd() === b.trimEnd()
+  ];
+
+  for (const equal of compare) {
+    const matchesAt = (start: number) =>
+      start >= 0 && start + oldLines.length <= lines.length &&
+      oldLines.every((line, i) => equal(lines[start + i], line));
+
+    for (let distance = 0; distance <= MAX_HUNK_OFFSET; distance++) {
+      if (matchesAt(expected - distance)) return expected - distance;
+      if (distance > 0 && matchesAt(expected + distance)) return expected + distance;
+      if (expected - distance < 0 && expected + distance > lines.length) break;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The first line that differs at the stated position, to help fix the hunk
+ */
+function describeMismatch(lines: string[], oldLines: string[], expected: number): string {
+  for (let i = 0; i < oldLines.length; i++) {
+    const actual = lines[expected + i];
+    if (actual !== oldLines[i]) {
+      return actual === undefined
+        ? ` - the file ends before line ${expected + i + 1}`
+        : ` - line ${expected + i + 1} is ${JSON.stringify(actual)}, the patch expects ${JSON.stringify(oldLines[i])}`;
+    }
+  }
+  return '';
+}
+
+/**
+ * A file's lines, the last one marked when the file has no final newline
+ */
+function splitDiffLines(content: string): DiffLine[] {
+  const normalized = content.replace(/\r\n/g, '\n');
+  if (normalized === '') {
+    return [];
+  }
+
+  const texts = normalized.split('\n');
+  const endsWithNewline = normalized.endsWith('\n');
+  if (endsWithNewline) {
+    texts.pop();
+  }
+  return texts.map((text, i) => ({
+    type: ' ',
+    text,
+    ...(!endsWithNewline && i === texts.length - 1 ? { noNewline: true } : {})
+  }));
+}
+
+/**
+ * Removed and added lines between two versions, by longest common subsequence
+ */
+function diffLines(oldLines: DiffLine[], newLines: DiffLine[], same: (a: DiffLine, b: DiffLine) => boolean): DiffLine[] {
+  const removed = oldLines.map(line => ({ ...line, type: '-' as const }));
+  const added = newLines.map(line => ({ ...line, type: '+' as const }));
+  if (oldLines.length === 0 || newLines.length === 0 || oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // lcs[i][j] is the common length of oldLines[i..] and newLines[j..]
+  const width = newLines.length + 1;
+  const lcs = new Uint32Array((oldLines.length + 1) * width);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = same(oldLines[i], newLines[j])
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (same(oldLines[i], newLines[j])) {
+      lines.push({ ...oldLines[i++], type: ' ' });
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push(removed[i++]);
+    } else {
+      lines.push(added[j++]);
+    }
+  }
+  return [...lines, ...removed.slice(i), ...added.slice(j)];
+}
+
+/**
+ * Changed lines with a few unchanged ones around them, as hunks - changes
+ * close enough to share context share a hunk
+ */
+function groupHunks(lines: DiffLine[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let start = -1;
+  let end = -1;
+
+  const flush = () => {
+    const hunkLines = lines.slice(start, end);
+    const before = lines.slice(0, start);
+    const oldBefore = before.filter(line => line.type !== '+').length;
+    const newBefore = before.filter(line => line.type !== '-').length;
+    const oldCount = hunkLines.filter(line => line.type !== '+').length;
+    const newCount = hunkLines.filter(line => line.type !== '-').length;
+    const oldStart = oldCount === 0 ? oldBefore : oldBefore + 1;
+    const newStart = newCount === 0 ? newBefore : newBefore + 1;
+
+    hunks.push({
+      oldStart,
+      newStart,
+      header: `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      lines: hunkLines
+    });
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type === ' ') return;
+
+    const from = Math.max(index - DIFF_CONTEXT, 0);
+    if (start !== -1 && from > end) {
+      flush();
+      start = -1;
+    }
+    if (start === -1) {
+      start = from;
+    }
+    end = Math.min(index + 1 + DIFF_CONTEXT, lines.length);
+  });
+  if (start !== -1) {
+    flush();
+  }
+  return hunks;
+}
+
+/**
+ * "start,count" for a hunk header, with git's shorthand for one line
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
\ No newline at end of file
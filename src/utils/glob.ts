@@ -0,0 +1,182 @@
+/**
+ * Glob patterns and .gitignore rules, matched against relative paths
+ *
+ * Paths use forward slashes. `**` spans directories, `*` and `?` stay
+ * within one, and `{a,b}` and `[abc]` work as in a shell.
+ */
+
+/**
+ * One line of a .gitignore file
+ */
+export interface IgnoreRule {
+  /** Directory of the .gitignore, relative to the root - '' for the root */
+  base: string;
+  regex: RegExp;
+  /** A "!" line - re-includes what an earlier rule ignored */
+  negate: boolean;
+  /** A trailing "/" - only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Compile a glob to a regular expression over a whole relative path
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${translate(pattern)}$`);
+}
+
+/**
+ * Parse a .gitignore file's rules
+ *
+ * @param base - Where the file is, relative to the root the paths are matched from
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    }
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+
+    // A slash anywhere but the end anchors the pattern to the file's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) {
+      continue;
+    }
+
+    rules.push({
+      base,
+      regex: globToRegExp(anchored ? line : `**/${line}`),
+      negate,
+      directoryOnly
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether rules ignore a path - the last rule that matches decides
+ */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+
+    const pathFromBase = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.regex.test(pathFromBase)) {
+      ignored = !rule.negate;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Regular expression source for a glob, without anchors
+ */
+function translate(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        const followedBySlash = pattern[i + 2] === '/';
+        i++;
+        if (atSegmentStart && followedBySlash) {
+          // "**/" - any number of directories, including none
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = findClosingBrace(pattern, i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const alternatives = splitAlternatives(pattern.slice(i + 1, end));
+        source += `(?:${alternatives.map(translate).join('|')})`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') depth++;
+    if (pattern[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * "a,b{c,d}" into ["a", "b{c,d}"] - commas in nested braces stay put
+ */
+function splitAlternatives(body: string): string[] {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of body) {
+    if (char === ',' && depth === 0) {
+      alternatives.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    current += char;
+  }
+  alternatives.push(current);
+  return alternatives;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
\ No newline at end of file
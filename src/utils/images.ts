@@ -0,0 +1,94 @@
+/**
+ * Image helpers for vision models
+ *
+ * Images travel as base64 with their mime type - Ollama wants bare base64,
+ * OpenAI-compatible servers want a data: URL, so both are kept around.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { InlineData } from '../types.js';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+};
+
+/** Bigger than any screenshot, small enough not to stall the model */
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/** `@path/to/image.png` anywhere in a message */
+const ATTACHMENT_PATTERN = /(^|\s)@(\S+\.(?:png|jpe?g|gif|webp|bmp))(?=\s|$)/gi;
+
+export interface ImageAttachments {
+  /** The message with the attachment references left in place */
+  text: string;
+  images: InlineData[];
+  /** Absolute paths of the attached files, in order */
+  paths: string[];
+}
+
+/**
+ * Mime type for an image file, or null if it isn't one we can send
+ */
+export function getImageMimeType(filePath: string): string | null {
+  return IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()] || null;
+}
+
+/**
+ * Load an image file as inline data
+ */
+export async function readImageFile(filePath: string): Promise<InlineData> {
+  const mimeType = getImageMimeType(filePath);
+  if (!mimeType) {
+    throw new Error(`Not a supported image type: ${filePath}`);
+  }
+
+  const stats = await fs.stat(filePath);
+  if (stats.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Image too large (${Math.round(stats.size / 1024 / 1024)}MB, max ${MAX_IMAGE_BYTES / 1024 / 1024}MB): ${filePath}`);
+  }
+
+  const data = await fs.readFile(filePath);
+  return { mimeType, data: data.toString('base64') };
+}
+
+/**
+ * Load every `@path` image a message refers to
+ *
+ * Relative paths resolve against `baseDirectory`. A reference to a file
+ * that doesn't exist is an error rather than being sent as plain text.
+ */
+export async function extractImageAttachments(input: string, baseDirectory: string): Promise<ImageAttachments> {
+  const paths = [...input.matchAll(ATTACHMENT_PATTERN)].map(match =>
+    path.isAbsolute(match[2]) ? match[2] : path.resolve(baseDirectory, match[2])
+  );
+
+  const images: InlineData[] = [];
+  for (const filePath of paths) {
+    try {
+      images.push(await readImageFile(filePath));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot attach ${path.relative(baseDirectory, filePath)}: ${message}`);
+    }
+  }
+
+  return { text: input, images, paths };
+}
+
+/**
+ * Recover the mime type of bare base64 image data from its magic bytes
+ */
+export function sniffImageMimeType(data: string): string {
+  if (data.startsWith('iVBOR')) return 'image/png';
+  if (data.startsWith('/9j/')) return 'image/jpeg';
+  if (data.startsWith('R0lG')) return 'image/gif';
+  if (data.startsWith('UklG')) return 'image/webp';
+  if (data.startsWith('Qk')) return 'image/bmp';
+  return 'image/png';
+}
\ No newline at end of file
@@ -4,36 +4,59 @@
  * Filters AI responses to remove internal reasoning and ensure clean output
  */
 
+/** Tags models wrap their internal reasoning in */
+const REASONING_TAGS = [
+  'think', 'reasoning', 'planning', 'internal',
+  'thought', 'analysis', 'consideration', 'reflection',
+  'process', 'debug', 'trace', 'step'
+];
+
+export interface SeparatedReasoning {
+  /** The reply with reasoning blocks removed */
+  content: string;
+  /** Text of the removed blocks, in order - empty if there were none */
+  reasoning: string;
+}
+
+/**
+ * Split reasoning blocks out of a reply instead of throwing them away
+ *
+ * Chat templates that open <think> themselves (qwen3, deepseek-r1) leave
+ * only the closing tag in the reply, so everything before it is reasoning.
+ */
+export function extractReasoning(response: string): SeparatedReasoning {
+  if (!response) return { content: response, reasoning: '' };
+
+  const blocks: string[] = [];
+  let content = response;
+
+  const unopened = content.match(/^([\s\S]*?)<\/think>/i);
+  if (unopened && !/<think>/i.test(unopened[1])) {
+    blocks.push(unopened[1]);
+    content = content.slice(unopened[0].length);
+  }
+
+  for (const tag of REASONING_TAGS) {
+    const regex = new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, 'gi');
+    content = content.replace(regex, (_, inner: string) => {
+      blocks.push(inner);
+      return '';
+    });
+  }
+
+  return {
+    content,
+    reasoning: blocks.map(block => block.trim()).filter(Boolean).join('\n\n')
+  };
+}
+
 /**
  * Remove internal reasoning tags from AI responses
  */
 export function filterInternalReasoning(response: string): string {
   if (!response) return response;
 
-  let filtered = response;
-
-  // Remove <think> tags and their content
-  filtered = filtered.replace(/<think>[\s\S]*?<\/think>/gi, '');
-  
-  // Remove <reasoning> tags and their content
-  filtered = filtered.replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '');
-  
-  // Remove <planning> tags and their content
-  filtered = filtered.replace(/<planning>[\s\S]*?<\/planning>/gi, '');
-  
-  // Remove <internal> tags and their content
-  filtered = filtered.replace(/<internal>[\s\S]*?<\/internal>/gi, '');
-  
-  // Remove any other common internal processing tags
-  const internalTags = [
-    'thought', 'analysis', 'consideration', 'reflection',
-    'process', 'debug', 'trace', 'step'
-  ];
-  
-  for (const tag of internalTags) {
-    const regex = new RegExp(`<${tag}>[\s\S]*?<\/${tag}>`, 'gi');
-    filtered = filtered.replace(regex, '');
-  }
+  let filtered = extractReasoning(response).content;
 
   // Clean up extra whitespace that might be left behind
   filtered = filtered.replace(/\n\s*\n\s*\n/g, '\n\n'); // Multiple newlines to double newlines
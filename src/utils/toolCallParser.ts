@@ -0,0 +1,355 @@
+/**
+ * Tool call parser for text-based function calling
+ *
+ * Small local models are creative about JSON: trailing commas, single quotes,
+ * <tool_call> tags, several calls in one reply, or a call buried in prose.
+ * This finds every call it can, repairs what it can, and reports the rest
+ * so the caller can ask the model to try again.
+ */
+
+import { FunctionCall } from '../types.js';
+
+export interface ToolCallParseOptions {
+  /** Only accept calls to these tool names (recommended - prose JSON is common) */
+  knownTools?: string[];
+}
+
+export interface ToolCallParseResult {
+  /** Every call found, in the order they appear */
+  calls: FunctionCall[];
+  /** Parse errors for fragments that looked like tool calls but weren't valid JSON */
+  errors: string[];
+  /** True when the calls came from a repair round-trip */
+  repaired?: boolean;
+}
+
+/**
+ * The tool-call syntax the model was asked to use - how to read replies
+ * and how to write a call, for the repair prompt's example
+ */
+export interface ToolCallFormat {
+  parseToolCalls(text: string, options?: ToolCallParseOptions): ToolCallParseResult;
+  formatToolCall(call: FunctionCall): string;
+}
+
+/** Keys that carry arguments across the formats models like to invent */
+const ARGUMENT_KEYS = ['arguments', 'args', 'parameters', 'tool_input', 'input'];
+
+/** The generic {"function_call": ...} syntax */
+const jsonToolCallFormat: ToolCallFormat = {
+  parseToolCalls,
+  formatToolCall: call => JSON.stringify({ function_call: { name: call.name, arguments: call.args } })
+};
+
+/** Placeholder call shown in the repair prompt */
+const EXAMPLE_CALL: FunctionCall = { name: 'tool_name', args: { param: 'value' } };
+
+/**
+ * Find all tool calls in a model reply
+ */
+export function parseToolCalls(text: string, options: ToolCallParseOptions = {}): ToolCallParseResult {
+  const calls: FunctionCall[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  if (!text) {
+    return { calls, errors };
+  }
+
+  let index = 0;
+  while (index < text.length) {
+    const ch = text[index];
+    if (ch !== '{' && ch !== '[') {
+      index++;
+      continue;
+    }
+
+    // An apostrophe in prose or code ("don't") isn't a string - only
+    // count single quotes as strings if the span still ends that way
+    let end = findJsonEnd(text, index, true);
+    if (end === -1) {
+      end = findJsonEnd(text, index, false);
+    }
+    const span = end === -1 ? text.slice(index) : text.slice(index, end + 1);
+
+    if (end === -1) {
+      if (looksLikeToolCall(span, options)) {
+        errors.push(`Unterminated JSON (reply may have been cut off) in: ${preview(span)}`);
+      }
+      index++;
+      continue;
+    }
+
+    const parsed = parseLenientJson(span);
+    if (!parsed.ok) {
+      if (looksLikeToolCall(span, options)) {
+        errors.push(`${parsed.error} in: ${preview(span)}`);
+      }
+      // Step inside - a valid call may still be nested in this span
+      index++;
+      continue;
+    }
+
+    const found = normalizeToolCalls(parsed.value, options);
+    if (found.length === 0) {
+      index++;
+      continue;
+    }
+
+    for (const call of found) {
+      const key = `${call.name}:${JSON.stringify(call.args)}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        calls.push(call);
+      }
+    }
+    index = end + 1;
+  }
+
+  return { calls, errors };
+}
+
+/**
+ * Parse tool calls, asking the model once to re-emit valid JSON if needed
+ *
+ * The repair round-trip only happens when nothing parsed but something
+ * looked like a broken call. `askForRepair` receives the prompt to send and
+ * returns the model's new reply; `format` lets model-specific syntaxes plug
+ * in, and the prompt asks for a call in that syntax.
+ */
+export async function parseToolCallsWithRepair(
+  text: string,
+  askForRepair: (repairPrompt: string) => Promise<string>,
+  options: ToolCallParseOptions = {},
+  format: ToolCallFormat = jsonToolCallFormat
+): Promise<ToolCallParseResult> {
+  const result = format.parseToolCalls(text, options);
+  if (result.calls.length > 0 || result.errors.length === 0) {
+    return result;
+  }
+
+  try {
+    const repairedText = await askForRepair(createRepairPrompt(result.errors, format.formatToolCall(EXAMPLE_CALL)));
+    const repaired = format.parseToolCalls(repairedText, options);
+    return {
+      calls: repaired.calls,
+      errors: repaired.calls.length > 0 ? [] : [...result.errors, ...repaired.errors],
+      repaired: repaired.calls.length > 0
+    };
+  } catch {
+    // Repair is best effort - report the original errors
+    return result;
+  }
+}
+
+/**
+ * Build the follow-up prompt that shows the model its parse error
+ *
+ * @param example - A call written the way the model was asked to write them
+ */
+export function createRepairPrompt(errors: string[], example: string = jsonToolCallFormat.formatToolCall(EXAMPLE_CALL)): string {
+  return `Your previous reply contained a tool call that is not valid JSON.
+
+Parse error: ${errors[0]}
+
+Re-emit ONLY the corrected tool call, with valid JSON: double-quoted keys and strings, no trailing commas, no comments, no other text. Use this shape:
+${example}`;
+}
+
+/**
+ * Parse JSON, falling back to a repaired version of the text
+ */
+export function parseLenientJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (error) {
+    try {
+      return { ok: true, value: JSON.parse(repairJson(text)) };
+    } catch {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+/**
+ * Fix the JSON mistakes small models make most often
+ *
+ * Converts single-quoted strings, quotes bare keys, drops trailing commas,
+ * escapes raw newlines inside strings and maps Python literals.
+ */
+export function repairJson(input: string): string {
+  let out = '';
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let value = '';
+      while (j < input.length && input[j] !== ch) {
+        const c = input[j];
+        if (c === '\\' && j + 1 < input.length) {
+          // \' isn't a valid JSON escape
+          value += input[j + 1] === "'" ? "'" : c + input[j + 1];
+          j += 2;
+          continue;
+        }
+        if (c === '"') value += '\\"'; // only reachable inside single quotes
+        else if (c === '\n') value += '\\n';
+        else if (c === '\r') value += '\\r';
+        else if (c === '\t') value += '\\t';
+        else value += c;
+        j++;
+      }
+      out += `"${value}"`;
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === ',') {
+      let k = i + 1;
+      while (k < input.length && /\s/.test(input[k])) k++;
+      if (input[k] === '}' || input[k] === ']') {
+        i++;
+        continue;
+      }
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      let k = i;
+      while (k < input.length && /[\w$-]/.test(input[k])) k++;
+      const word = input.slice(i, k);
+
+      let m = k;
+      while (m < input.length && /\s/.test(input[m])) m++;
+
+      if (input[m] === ':') out += JSON.stringify(word);
+      else if (word === 'True') out += 'true';
+      else if (word === 'False') out += 'false';
+      else if (word === 'None') out += 'null';
+      else out += word;
+
+      i = k;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * Find the index of the bracket closing the one at `start`, or -1
+ *
+ * @param singleQuotes - Whether '...' is a string, as in JSON models get wrong
+ */
+function findJsonEnd(text: string, start: number, singleQuotes: boolean): number {
+  const stack: string[] = [];
+  let quote: string | null = null;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (ch === '\\') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (ch === '"' || (singleQuotes && ch === "'")) {
+      quote = ch;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      if (stack.pop() !== ch) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Convert whatever JSON shape the model produced into FunctionCalls
+ */
+function normalizeToolCalls(value: unknown, options: ToolCallParseOptions): FunctionCall[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => normalizeToolCalls(item, options));
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+
+  const obj = value as Record<string, any>;
+
+  if (Array.isArray(obj.tool_calls)) {
+    return normalizeToolCalls(obj.tool_calls, options);
+  }
+  if (obj.function_call && typeof obj.function_call === 'object') {
+    return normalizeToolCalls(obj.function_call, options);
+  }
+  if (obj.function && typeof obj.function === 'object') {
+    return normalizeToolCalls(obj.function, options);
+  }
+
+  const name = [obj.name, obj.function, obj.tool, obj.tool_name]
+    .find(candidate => typeof candidate === 'string');
+  if (!name) {
+    return [];
+  }
+
+  const argsKey = ARGUMENT_KEYS.find(key => key in obj);
+  if (options.knownTools) {
+    if (!options.knownTools.includes(name)) return [];
+  } else if (!argsKey) {
+    // Without a tool list, {"name": ...} alone is too likely to be ordinary data
+    return [];
+  }
+
+  return [{ name, args: normalizeArguments(argsKey ? obj[argsKey] : {}) }];
+}
+
+/**
+ * Arguments sometimes arrive as a JSON string rather than an object
+ */
+function normalizeArguments(args: unknown): Record<string, unknown> {
+  if (typeof args === 'string') {
+    const parsed = parseLenientJson(args);
+    return parsed.ok && parsed.value && typeof parsed.value === 'object'
+      ? parsed.value as Record<string, unknown>
+      : {};
+  }
+  return args && typeof args === 'object' ? args as Record<string, unknown> : {};
+}
+
+/**
+ * Cheap check for fragments worth reporting as broken tool calls
+ */
+function looksLikeToolCall(text: string, options: ToolCallParseOptions): boolean {
+  if (/["']?(function_call|tool_calls)["']?\s*:/.test(text)) {
+    return true;
+  }
+  // Code samples in ordinary answers are full of braces - only flag real tool names
+  if (options.knownTools) {
+    return options.knownTools.some(name => text.includes(`"${name}"`) || text.includes(`'${name}'`));
+  }
+  return /["']?(name|function|tool)["']?\s*:/.test(text) && /["']?(arguments|parameters)["']?\s*:/.test(text);
+}
+
+/**
+ * Shorten a fragment for error messages
+ */
+function preview(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ');
+  return oneLine.length > 120 ? `${oneLine.substring(0, 120)}...` : oneLine;
+}
\ No newline at end of file
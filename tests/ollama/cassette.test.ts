@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { OllamaClient, OllamaFetch } from '../../src/ollama/client.js';
+import { createRecordingFetch, createReplayFetch, CassetteEntry } from '../../src/ollama/cassette.js';
+
+const HOST = 'http://localhost:11434';
+
+/**
+ * Stands in for a live server - answers chats with the last user message
+ * reversed, streamed a word at a time when asked
+ */
+const server: OllamaFetch = async (url, init) => {
+  const { pathname } = new URL(url);
+  if (pathname === '/') {
+    return new Response('Ollama is running');
+  }
+
+  const request = JSON.parse(init.body as string);
+  const reply = request.messages.at(-1).content.split(' ').reverse().join(' ');
+  if (!request.stream) {
+    return Response.json({ model: request.model, created_at: '', message: { role: 'assistant', content: reply }, done: true });
+  }
+
+  const lines = [
+    ...reply.split(' ').map((word: string) => ({ model: request.model, created_at: '', message: { role: 'assistant', content: `${word} ` }, done: false })),
+    { model: request.model, created_at: '', message: { role: 'assistant', content: '' }, done: true, eval_count: 3 }
+  ];
+  return new Response(lines.map(line => JSON.stringify(line) + '\n').join(''));
+};
+
+const ask = (content: string) => ({ model: 'qwen3:8b', messages: [{ role: 'user' as const, content }] });
+
+async function streamText(client: OllamaClient, content: string): Promise<string> {
+  let text = '';
+  for await (const chunk of client.chatStream(ask(content))) {
+    text += chunk.message.content;
+  }
+  return text;
+}
+
+describe('cassettes', () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'numidium-cassette-'));
+    cassettePath = path.join(dir, 'nested', 'session.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const readCassette = async (): Promise<CassetteEntry[]> =>
+    (await fs.readFile(cassettePath, 'utf8')).split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+  /** Bodies are written once read, after the caller already has them */
+  const waitForEntries = (count: number) => vi.waitFor(async () => expect(await readCassette()).toHaveLength(count));
+
+  it('records every exchange, streamed bodies included', async () => {
+    const client = new OllamaClient({ host: HOST, fetch: createRecordingFetch(cassettePath, server) });
+
+    expect((await client.chat(ask('one two'))).message.content).toBe('two one');
+    expect(await streamText(client, 'a b c')).toBe('c b a ');
+    await waitForEntries(3);
+
+    const [health, chat, stream] = await readCassette();
+    expect(health).toMatchObject({ method: 'GET', endpoint: '/', status: 200, body: 'Ollama is running' });
+    expect(chat).toMatchObject({ method: 'POST', endpoint: '/api/chat', request: { ...ask('one two'), stream: false } });
+    expect(stream.body.trim().split('\n')).toHaveLength(4);
+  });
+
+  it('replays a recorded session with no server, matching requests by body', async () => {
+    const recorder = new OllamaClient({ host: HOST, fetch: createRecordingFetch(cassettePath, server) });
+    await recorder.chat(ask('first question'));
+    await recorder.chat(ask('second question'));
+    await streamText(recorder, 'streamed reply here');
+    await waitForEntries(4);
+
+    const replayer = new OllamaClient({ host: HOST, fetch: createReplayFetch(cassettePath) });
+
+    // Out of order - each request still gets its own answer
+    expect((await replayer.chat(ask('second question'))).message.content).toBe('question second');
+    expect((await replayer.chat(ask('first question'))).message.content).toBe('question first');
+    expect(await streamText(replayer, 'streamed reply here')).toBe('here reply streamed ');
+  });
+
+  it('falls back to the next unused answer when no body matches', async () => {
+    const recorder = new OllamaClient({ host: HOST, fetch: createRecordingFetch(cassettePath, server) });
+    await recorder.chat(ask('recorded'));
+    await waitForEntries(2);
+
+    const replayer = new OllamaClient({ host: HOST, fetch: createReplayFetch(cassettePath) });
+
+    expect((await replayer.chat(ask('something else'))).message.content).toBe('recorded');
+  });
+
+  it('repeats GETs but serves each POST only once', async () => {
+    const recorder = new OllamaClient({ host: HOST, fetch: createRecordingFetch(cassettePath, server) });
+    await recorder.chat(ask('only once'));
+    await waitForEntries(2);
+
+    const replay = createReplayFetch(cassettePath);
+    const post = { method: 'POST', body: JSON.stringify({ ...ask('only once'), stream: false }) };
+
+    expect((await replay(`${HOST}/`, { method: 'GET' })).ok).toBe(true);
+    expect((await replay(`${HOST}/`, { method: 'GET' })).ok).toBe(true);
+    expect((await replay(`${HOST}/api/chat`, post)).ok).toBe(true);
+    await expect(replay(`${HOST}/api/chat`, post)).rejects.toThrow(`Cassette ${cassettePath} has no recorded response left for POST /api/chat`);
+  });
+
+  it('names the line of a corrupt cassette', async () => {
+    await fs.mkdir(path.dirname(cassettePath), { recursive: true });
+    await fs.writeFile(cassettePath, '{"method": "GET", "endpoint": "/", "status": 200, "body": ""}\nnot json\n');
+
+    expect(() => createReplayFetch(cassettePath)).toThrow(`Invalid cassette entry on line 2 of ${cassettePath}`);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { OllamaClient, OllamaFetch } from '../../src/ollama/client.js';
+
+type HostBehaviour = 'up' | 'refused' | 'hang';
+
+/**
+ * A transport for two or more fake hosts - each answers health checks,
+ * its model list and chats, or fails the way its behaviour says
+ */
+function createHosts(hosts: Record<string, { models: string[]; behaviour?: HostBehaviour }>) {
+  const chats: string[] = [];
+
+  const fetch: OllamaFetch = async (url, init) => {
+    const { origin, pathname } = new URL(url);
+    const host = hosts[origin];
+    const behaviour = host.behaviour ?? 'up';
+
+    if (behaviour === 'refused') {
+      throw new TypeError('fetch failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) });
+    }
+    if (pathname === '/') {
+      return new Response('Ollama is running');
+    }
+    if (pathname === '/api/tags') {
+      return Response.json({ models: host.models.map(name => ({ name })) });
+    }
+    if (pathname === '/api/ps') {
+      return Response.json({ models: [] });
+    }
+
+    chats.push(origin);
+    if (behaviour === 'hang') {
+      return await new Promise<Response>((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      });
+    }
+    const { model } = JSON.parse(init.body as string);
+    return Response.json({ model, created_at: '', message: { role: 'assistant', content: `from ${origin}` }, done: true });
+  };
+
+  return { fetch, chats };
+}
+
+const chat = (client: OllamaClient, model: string) => client.chat({ model, messages: [{ role: 'user', content: 'hi' }] });
+
+describe('OllamaClient with several hosts', () => {
+  it('sends a request to the host that has the model, whatever its priority', async () => {
+    const { fetch } = createHosts({
+      'http://first:11434': { models: ['llama3.1:8b'] },
+      'http://second:11434': { models: ['qwen3:8b'] }
+    });
+    const client = new OllamaClient({ hosts: [{ url: 'http://first:11434' }, { url: 'http://second:11434' }], fetch });
+
+    const response = await chat(client, 'qwen3:8b');
+
+    expect(response.message.content).toBe('from http://second:11434');
+    expect(client.getActiveHost()).toBe('http://second:11434');
+  });
+
+  it('fails over to the next host when one stops answering, and marks it down', async () => {
+    const hosts = {
+      'http://first:11434': { models: ['qwen3:8b'], behaviour: 'up' as HostBehaviour },
+      'http://second:11434': { models: ['qwen3:8b'] }
+    };
+    const { fetch, chats } = createHosts(hosts);
+    const client = new OllamaClient({ hosts: [{ url: 'http://first:11434' }, { url: 'http://second:11434' }], fetch });
+    expect((await chat(client, 'qwen3:8b')).message.content).toBe('from http://first:11434');
+
+    hosts['http://first:11434'].behaviour = 'refused';
+    const response = await chat(client, 'qwen3:8b');
+
+    expect(response.message.content).toBe('from http://second:11434');
+    expect(chats).toEqual(['http://first:11434', 'http://second:11434']);
+    expect(client.getActiveHost()).toBe('http://second:11434');
+    expect(client.getHostStatus().map(host => [host.url, host.healthy])).toEqual([
+      ['http://first:11434', false],
+      ['http://second:11434', true]
+    ]);
+  });
+
+  it('surfaces a timeout without sending the request to another host', async () => {
+    const { fetch, chats } = createHosts({
+      'http://first:11434': { models: ['qwen3:8b'], behaviour: 'hang' },
+      'http://second:11434': { models: ['qwen3:8b'] }
+    });
+    const client = new OllamaClient({ hosts: [{ url: 'http://first:11434' }, { url: 'http://second:11434' }], fetch, timeout: 50 });
+
+    await expect(chat(client, 'qwen3:8b')).rejects.toMatchObject({
+      name: 'TimeoutError',
+      message: "http://first:11434 didn't respond within 0.05s"
+    });
+    expect(chats).toEqual(['http://first:11434']);
+    expect(client.getHostStatus().every(host => host.healthy)).toBe(true);
+  });
+
+  it('reports every host when none is running', async () => {
+    const { fetch } = createHosts({
+      'http://first:11434': { models: [], behaviour: 'refused' },
+      'http://second:11434': { models: [], behaviour: 'refused' }
+    });
+    const client = new OllamaClient({ hosts: [{ url: 'http://first:11434' }, { url: 'http://second:11434' }], fetch });
+
+    await expect(chat(client, 'qwen3:8b')).rejects.toThrow(
+      'Ollama service is not available. Please ensure Ollama is running on http://first:11434 or http://second:11434'
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getToolCallAdapter, registerToolCallAdapter, defaultToolCallAdapter } from '../../src/ollama/toolCallAdapters.js';
+
+const adapterFor = (name: string, family?: string) => getToolCallAdapter({ name, family }).name;
+
+describe('getToolCallAdapter', () => {
+  it('picks by name over the llama family Ollama reports for Mistral models', () => {
+    expect(adapterFor('mistral:7b', 'llama')).toBe('mistral');
+    expect(adapterFor('mixtral:8x7b', 'llama')).toBe('mistral');
+    expect(adapterFor('mistral-nemo:latest', 'llama')).toBe('mistral');
+  });
+
+  it('picks by name for Qwen, Llama 3 and DeepSeek models', () => {
+    expect(adapterFor('qwen3:8b', 'qwen3')).toBe('hermes');
+    expect(adapterFor('qwen2.5-coder:7b')).toBe('hermes');
+    expect(adapterFor('llama3.1:8b', 'llama')).toBe('llama3');
+    expect(adapterFor('deepseek-r1:8b', 'llama')).toBe('deepseek');
+  });
+
+  it('falls back to the default for llama-family models without a Llama 3 name', () => {
+    expect(adapterFor('codellama:7b', 'llama')).toBe('json');
+    expect(adapterFor('llama2:13b', 'llama')).toBe('json');
+  });
+
+  it('uses the family when the name says nothing', () => {
+    expect(adapterFor('my-finetune:latest', 'qwen2')).toBe('hermes');
+    expect(adapterFor('my-finetune:latest', 'DeepSeek2')).toBe('deepseek');
+    expect(adapterFor('my-finetune:latest')).toBe('json');
+  });
+
+  it('checks registered adapters before the built-in ones', () => {
+    registerToolCallAdapter({ ...defaultToolCallAdapter, name: 'granite', families: ['granite'], namePatterns: [/granite|mistral-small/i] });
+
+    expect(adapterFor('granite3.3:8b')).toBe('granite');
+    expect(adapterFor('mistral-small:24b', 'llama')).toBe('granite');
+    expect(adapterFor('mistral:7b', 'llama')).toBe('mistral');
+  });
+});
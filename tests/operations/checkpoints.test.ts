@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CheckpointStore } from '../../src/operations/checkpoints.js';
+
+describe('CheckpointStore', () => {
+  let dir: string;
+  let store: CheckpointStore;
+  let clock: number;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'numidium-checkpoints-'));
+    store = new CheckpointStore(path.join(dir, '.numidium', 'checkpoints'));
+    // Checkpoint ids are timestamps - give every turn its own
+    clock = Date.parse('2026-03-14T09:30:00.000Z');
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const beginTurn = (prompt: string) => {
+    vi.setSystemTime(clock += 1000);
+    store.beginTurn(prompt);
+  };
+
+  /** What a tool does - snapshot, then write */
+  const change = async (filePath: string, content: string) => {
+    await store.snapshot([filePath]);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  };
+
+  const exists = (filePath: string) => fs.stat(filePath).then(() => true, () => false);
+
+  it('records nothing outside a turn or for turns that change nothing', async () => {
+    const file = path.join(dir, 'a.txt');
+    await change(file, 'before any turn');
+    beginTurn('just a question');
+
+    expect(await store.list()).toEqual([]);
+    await expect(store.undo()).rejects.toThrow('Nothing to undo');
+  });
+
+  it('undoes a created file by removing it', async () => {
+    const file = path.join(dir, 'src', 'new.ts');
+    beginTurn('create new.ts');
+    await change(file, 'export {};\n');
+
+    const result = await store.undo();
+
+    expect(await exists(file)).toBe(false);
+    expect(result.files).toEqual([path.relative(process.cwd(), file)]);
+    expect(result.checkpoints.map(checkpoint => checkpoint.prompt)).toEqual(['create new.ts']);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('undoes a modified file to how it was when the turn started', async () => {
+    const file = path.join(dir, 'a.txt');
+    await fs.writeFile(file, 'original');
+    beginTurn('edit a.txt twice');
+    await change(file, 'first edit');
+    await change(file, 'second edit');
+
+    const [checkpoint] = await store.list();
+    expect(checkpoint.files).toEqual([{ path: file, existed: true }]);
+
+    await store.undo();
+
+    expect(await fs.readFile(file, 'utf8')).toBe('original');
+  });
+
+  it('restores bytes exactly, so binary files survive', async () => {
+    const file = path.join(dir, 'image.bin');
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x0d, 0x0a]);
+    await fs.writeFile(file, bytes);
+    beginTurn('overwrite image.bin');
+    await change(file, 'text now');
+
+    await store.undo();
+
+    expect(await fs.readFile(file)).toEqual(bytes);
+  });
+
+  it('undoes only the latest turn', async () => {
+    const file = path.join(dir, 'a.txt');
+    await fs.writeFile(file, 'v1');
+    beginTurn('turn 1');
+    await change(file, 'v2');
+    beginTurn('turn 2');
+    await change(file, 'v3');
+
+    await store.undo();
+
+    expect(await fs.readFile(file, 'utf8')).toBe('v2');
+    expect((await store.list()).map(checkpoint => checkpoint.prompt)).toEqual(['turn 1']);
+  });
+
+  it('rewinds across turns that touched the same file to before the oldest', async () => {
+    const shared = path.join(dir, 'a.txt');
+    const created = path.join(dir, 'b.txt');
+    await fs.writeFile(shared, 'v1');
+    beginTurn('turn 1');
+    await change(shared, 'v2');
+    beginTurn('turn 2');
+    await change(shared, 'v3');
+    await change(created, 'new');
+    beginTurn('turn 3');
+    await change(shared, 'v4');
+
+    const checkpoints = await store.list();
+    expect(checkpoints.map(checkpoint => checkpoint.prompt)).toEqual(['turn 3', 'turn 2', 'turn 1']);
+
+    const result = await store.rewind(checkpoints[1].id);
+
+    expect(await fs.readFile(shared, 'utf8')).toBe('v2');
+    expect(await exists(created)).toBe(false);
+    expect(result.checkpoints.map(checkpoint => checkpoint.prompt)).toEqual(['turn 3', 'turn 2']);
+    expect(result.files.sort()).toEqual([shared, created].map(file => path.relative(process.cwd(), file)).sort());
+    expect((await store.list()).map(checkpoint => checkpoint.prompt)).toEqual(['turn 1']);
+  });
+
+  it('rejects rewinding to a checkpoint that does not exist', async () => {
+    await expect(store.rewind('2020-01-01T00-00-00-000Z')).rejects.toThrow('No checkpoint 2020-01-01T00-00-00-000Z');
+  });
+
+  it('keeps only the newest 50 checkpoints', async () => {
+    const file = path.join(dir, 'a.txt');
+    for (let turn = 1; turn <= 52; turn++) {
+      beginTurn(`turn ${turn}`);
+      await change(file, `v${turn}`);
+    }
+
+    const checkpoints = await store.list();
+
+    expect(checkpoints).toHaveLength(50);
+    expect(checkpoints[0].prompt).toBe('turn 52');
+    expect(checkpoints[49].prompt).toBe('turn 3');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { EditFileTool } from '../../src/tools/editFile.js';
+
+describe('EditFileTool', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'numidium-edit-'));
+    filePath = path.join(dir, 'example.ts');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const source = [
+    'function greet(name: string) {',
+    '  console.log(`Hello, ${name}`);',
+    '}',
+    '',
+    'function farewell(name: string) {',
+    '  console.log(`Goodbye, ${name}`);',
+    '}',
+    ''
+  ].join('\n');
+
+  it('replaces text that matches exactly once and reports the lines it touched', async () => {
+    await fs.writeFile(filePath, source);
+
+    const result = await EditFileTool.execute({
+      file_path: filePath,
+      old_string: '  console.log(`Goodbye, ${name}`);',
+      new_string: '  console.log(`Goodbye, ${name}!`);\n  return name;'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.content).toMatch(/\(lines 6-7\)$/);
+    expect(await fs.readFile(filePath, 'utf8')).toBe(source.replace('Goodbye, ${name}`);', 'Goodbye, ${name}!`);\n  return name;'));
+  });
+
+  it('refuses text that matches more than once unless replace_all is set', async () => {
+    await fs.writeFile(filePath, source);
+    const edit = { file_path: filePath, old_string: 'name: string', new_string: 'name: unknown' };
+
+    const ambiguous = await EditFileTool.execute(edit);
+    expect(ambiguous.success).toBe(false);
+    expect(ambiguous.error).toContain('matches 2 places (lines 1, 5)');
+    expect(await fs.readFile(filePath, 'utf8')).toBe(source);
+
+    const all = await EditFileTool.execute({ ...edit, replace_all: true });
+    expect(all.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf8')).toBe(source.replaceAll('name: string', 'name: unknown'));
+  });
+
+  it('hints at indentation when the text only matches with whitespace ignored', async () => {
+    await fs.writeFile(filePath, source);
+
+    const result = await EditFileTool.execute({
+      file_path: filePath,
+      old_string: 'function greet(name: string) {\nconsole.log(`Hello, ${name}`);',
+      new_string: 'function greet(name: string) {\n  console.info(`Hello, ${name}`);'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('only matches if whitespace is ignored');
+    expect(await fs.readFile(filePath, 'utf8')).toBe(source);
+  });
+
+  it('tells the model to re-read the file when the text is not there at all', async () => {
+    await fs.writeFile(filePath, source);
+
+    const result = await EditFileTool.execute({ file_path: filePath, old_string: 'welcome', new_string: 'hello' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('read the file again');
+  });
+
+  it('matches every edit against the original and rejects overlapping ones', async () => {
+    await fs.writeFile(filePath, source);
+
+    const separate = await EditFileTool.execute({
+      file_path: filePath,
+      edits: [
+        { old_string: 'Hello', new_string: 'Hi' },
+        { old_string: 'Goodbye', new_string: 'Bye' }
+      ]
+    });
+    expect(separate.success).toBe(true);
+    expect(separate.content).toMatch(/\(lines 2, 6\)$/);
+
+    const overlapping = await EditFileTool.execute({
+      file_path: filePath,
+      edits: [
+        { old_string: 'function greet', new_string: 'function welcome' },
+        { old_string: 'greet(name', new_string: 'greet(person' }
+      ]
+    });
+    expect(overlapping.success).toBe(false);
+    expect(overlapping.error).toContain('Edits 1 and 2 overlap');
+  });
+
+  it('keeps a CRLF file CRLF when the model sends \\n', async () => {
+    await fs.writeFile(filePath, source.replace(/\n/g, '\r\n'));
+
+    const result = await EditFileTool.execute({
+      file_path: filePath,
+      old_string: '}\n\nfunction farewell',
+      new_string: '}\n\n// Leaving\nfunction farewell'
+    });
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf8'))
+      .toBe(source.replace('}\n\nfunction farewell', '}\n\n// Leaving\nfunction farewell').replace(/\n/g, '\r\n'));
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff, applyHunks, createFileDiff } from '../../src/utils/diff.js';
+
+const lines = (...text: string[]) => text.map(line => `${line}\n`).join('');
+
+const original = lines('one', 'two', 'three', '', 'five', 'six', 'seven');
+
+describe('parseUnifiedDiff', () => {
+  it('reads paths from git and plain diff headers', () => {
+    const patches = parseUnifiedDiff([
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1234567..89abcde 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      '--- /dev/null\t2026-01-01 00:00:00',
+      '+++ src/b.ts\t2026-01-01 00:00:00',
+      '@@ -0,0 +1 @@',
+      '+created',
+      ''
+    ].join('\n'));
+
+    expect(patches.map(patch => [patch.oldPath, patch.newPath])).toEqual([
+      ['src/a.ts', 'src/a.ts'],
+      [null, 'src/b.ts']
+    ]);
+    expect(patches[0].hunks[0].lines).toEqual([{ type: '-', text: 'old' }, { type: '+', text: 'new' }]);
+  });
+
+  it('keeps a rename with no content changes', () => {
+    const [patch] = parseUnifiedDiff([
+      'diff --git a/old/name.ts b/new/name.ts',
+      'similarity index 100%',
+      'rename from old/name.ts',
+      'rename to new/name.ts',
+      ''
+    ].join('\n'));
+
+    expect(patch).toEqual({ oldPath: 'old/name.ts', newPath: 'new/name.ts', hunks: [] });
+  });
+
+  it('reads blank context lines that lost their leading space', () => {
+    const [patch] = parseUnifiedDiff([
+      '--- a/file.txt',
+      '+++ b/file.txt',
+      '@@ -3,3 +3,3 @@',
+      ' three',
+      '',
+      '-five',
+      '+5',
+      ''
+    ].join('\n'));
+
+    expect(patch.hunks[0].lines).toEqual([
+      { type: ' ', text: 'three' },
+      { type: ' ', text: '' },
+      { type: '-', text: 'five' },
+      { type: '+', text: '5' }
+    ]);
+  });
+
+  it('reads "-- " and "++ " lines inside a hunk as changes, not a file header', () => {
+    const patches = parseUnifiedDiff([
+      '--- a/schema.sql',
+      '+++ b/schema.sql',
+      '@@ -1,2 +1,2 @@',
+      '--- old comment',
+      '+++ new comment',
+      ' SELECT 1;',
+      '--- a/other.txt',
+      '+++ b/other.txt',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      ''
+    ].join('\n'));
+
+    expect(patches.map(patch => patch.newPath)).toEqual(['schema.sql', 'other.txt']);
+    expect(patches[0].hunks[0].lines).toEqual([
+      { type: '-', text: '-- old comment' },
+      { type: '+', text: '++ new comment' },
+      { type: ' ', text: 'SELECT 1;' }
+    ]);
+  });
+
+  it('marks lines followed by "\\ No newline at end of file"', () => {
+    const [patch] = parseUnifiedDiff([
+      '--- a/file.txt',
+      '+++ b/file.txt',
+      '@@ -1 +1 @@',
+      '-last',
+      '\\ No newline at end of file',
+      '+last',
+      ''
+    ].join('\n'));
+
+    expect(patch.hunks[0].lines).toEqual([
+      { type: '-', text: 'last', noNewline: true },
+      { type: '+', text: 'last' }
+    ]);
+  });
+
+  it('throws when there are no file changes', () => {
+    expect(() => parseUnifiedDiff('Here is the fix you asked for.')).toThrow(/No file changes found/);
+  });
+});
+
+describe('applyHunks', () => {
+  const patchOf = (...diff: string[]) => parseUnifiedDiff(['--- a/f', '+++ b/f', ...diff, ''].join('\n'))[0].hunks;
+
+  it('finds a hunk whose line numbers have drifted', () => {
+    const hunks = patchOf(
+      '@@ -2,2 +2,2 @@',
+      ' five',
+      '-six',
+      '+6'
+    );
+
+    expect(applyHunks(original, hunks)).toBe(lines('one', 'two', 'three', '', 'five', '6', 'seven'));
+  });
+
+  it('carries the drift of earlier hunks to later ones', () => {
+    const hunks = patchOf(
+      '@@ -1,2 +1,4 @@',
+      ' one',
+      '+one and a half',
+      '+one and three quarters',
+      ' two',
+      '@@ -6,2 +8,2 @@',
+      '-six',
+      '+6',
+      ' seven'
+    );
+
+    expect(applyHunks(original, hunks))
+      .toBe(lines('one', 'one and a half', 'one and three quarters', 'two', 'three', '', 'five', '6', 'seven'));
+  });
+
+  it('applies hunks with blank context lines missing their space', () => {
+    const hunks = patchOf(
+      '@@ -3,3 +3,3 @@',
+      ' three',
+      '',
+      '-five',
+      '+5'
+    );
+
+    expect(applyHunks(original, hunks)).toBe(lines('one', 'two', 'three', '', '5', 'six', 'seven'));
+  });
+
+  it('adds and removes the final newline as the patch says', () => {
+    const removeNewline = patchOf(
+      '@@ -7 +7 @@',
+      '-seven',
+      '+seven',
+      '\\ No newline at end of file'
+    );
+    const withoutNewline = applyHunks(original, removeNewline);
+    expect(withoutNewline).toBe(original.slice(0, -1));
+
+    const addNewline = patchOf(
+      '@@ -7 +7 @@',
+      '-seven',
+      '\\ No newline at end of file',
+      '+seven'
+    );
+    expect(applyHunks(withoutNewline, addNewline)).toBe(original);
+  });
+
+  it('keeps CRLF line endings', () => {
+    const hunks = patchOf(
+      '@@ -1,2 +1,2 @@',
+      '-one',
+      '+1',
+      ' two'
+    );
+
+    expect(applyHunks('one\r\ntwo\r\n', hunks)).toBe('1\r\ntwo\r\n');
+  });
+
+  it('creates a new file from null', () => {
+    const hunks = patchOf(
+      '@@ -0,0 +1,2 @@',
+      '+first',
+      '+second'
+    );
+
+    expect(applyHunks(null, hunks)).toBe(lines('first', 'second'));
+  });
+
+  it('names the hunk and the mismatched line when it does not apply', () => {
+    const hunks = patchOf(
+      '@@ -1,2 +1,2 @@',
+      ' one',
+      '-deux',
+      '+2'
+    );
+
+    expect(() => applyHunks(original, hunks))
+      .toThrow('hunk 1 (@@ -1,2 +1,2 @@) doesn\'t match the file - line 2 is "two", the patch expects "deux"');
+  });
+});
+
+describe('createFileDiff', () => {
+  it('produces hunks that apply back to the updated content', () => {
+    const updated = lines('one', 'two', 'THREE', '', 'five', 'six', 'seven', 'eight');
+
+    const diff = createFileDiff('f', original, updated);
+
+    expect(diff).toMatchObject({ isNewFile: false, added: 2, removed: 1 });
+    expect(diff.hunks.map(hunk => hunk.header)).toEqual(['@@ -1,7 +1,8 @@']);
+    expect(applyHunks(original, diff.hunks)).toBe(updated);
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = lines(...Array.from({ length: 20 }, (_, i) => `line ${i + 1}`));
+    const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', 'line nineteen\n');
+
+    const diff = createFileDiff('f', before, after);
+
+    expect(diff.hunks.map(hunk => hunk.header)).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    expect(applyHunks(before, diff.hunks)).toBe(after);
+  });
+
+  it('shows a new file as all added lines', () => {
+    const diff = createFileDiff('f', null, 'a\nb');
+
+    expect(diff).toMatchObject({ isNewFile: true, added: 2, removed: 0 });
+    expect(diff.hunks[0].lines[1]).toEqual({ type: '+', text: 'b', noNewline: true });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, parseGitignore, isIgnored } from '../../src/utils/glob.js';
+
+describe('globToRegExp', () => {
+  const matches = (pattern: string, filePath: string) => globToRegExp(pattern).test(filePath);
+
+  it('keeps * and ? within one path segment', () => {
+    expect(matches('*.ts', 'index.ts')).toBe(true);
+    expect(matches('*.ts', 'src/index.ts')).toBe(false);
+    expect(matches('src/?.ts', 'src/a.ts')).toBe(true);
+    expect(matches('src/?.ts', 'src/ab.ts')).toBe(false);
+  });
+
+  it('lets **/ match any number of directories, including none', () => {
+    expect(matches('**/*.tsx', 'App.tsx')).toBe(true);
+    expect(matches('src/**/*.tsx', 'src/App.tsx')).toBe(true);
+    expect(matches('src/**/*.tsx', 'src/ui/components/DiffView.tsx')).toBe(true);
+    expect(matches('src/**/*.tsx', 'lib/App.tsx')).toBe(false);
+  });
+
+  it('expands braces, including nested ones', () => {
+    expect(matches('*.{json,y{a,}ml}', 'package.json')).toBe(true);
+    expect(matches('*.{json,y{a,}ml}', 'config.yaml')).toBe(true);
+    expect(matches('*.{json,y{a,}ml}', 'config.yml')).toBe(true);
+    expect(matches('*.{json,y{a,}ml}', 'config.toml')).toBe(false);
+  });
+
+  it('supports character classes and their negation', () => {
+    expect(matches('file[0-9].txt', 'file7.txt')).toBe(true);
+    expect(matches('file[!0-9].txt', 'file7.txt')).toBe(false);
+    expect(matches('file[!0-9].txt', 'fileA.txt')).toBe(true);
+  });
+
+  it('treats regular expression characters and escapes literally', () => {
+    expect(matches('a+b (1).txt', 'a+b (1).txt')).toBe(true);
+    expect(matches('a.txt', 'abtxt')).toBe(false);
+    expect(matches('\\*.txt', '*.txt')).toBe(true);
+    expect(matches('\\*.txt', 'a.txt')).toBe(false);
+  });
+});
+
+describe('gitignore rules', () => {
+  it('matches unanchored patterns at any depth and anchored ones from the file', () => {
+    const rules = parseGitignore('*.log\n/build\ndocs/generated\n');
+
+    expect(isIgnored(rules, 'debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'src/deep/debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'build', true)).toBe(true);
+    expect(isIgnored(rules, 'src/build', true)).toBe(false);
+    expect(isIgnored(rules, 'docs/generated', true)).toBe(true);
+    expect(isIgnored(rules, 'src/docs/generated', true)).toBe(false);
+  });
+
+  it('applies directory-only patterns to directories alone', () => {
+    const rules = parseGitignore('cache/\n');
+
+    expect(isIgnored(rules, 'cache', true)).toBe(true);
+    expect(isIgnored(rules, 'src/cache', true)).toBe(true);
+    expect(isIgnored(rules, 'cache', false)).toBe(false);
+  });
+
+  it('lets a later negation re-include what an earlier rule ignored', () => {
+    const rules = parseGitignore('*.env\n!example.env\n');
+
+    expect(isIgnored(rules, 'local.env', false)).toBe(true);
+    expect(isIgnored(rules, 'example.env', false)).toBe(false);
+    expect(isIgnored(rules, 'config/example.env', false)).toBe(false);
+  });
+
+  it('lets the last matching rule decide', () => {
+    const rules = parseGitignore('!keep.txt\n*.txt\n');
+
+    expect(isIgnored(rules, 'keep.txt', false)).toBe(true);
+  });
+
+  it('skips comments and blank lines, and honours escaped # and !', () => {
+    const rules = parseGitignore('# comment\n\n\\#notes\n\\!important\r\ntrailing.txt   \n');
+
+    expect(rules).toHaveLength(3);
+    expect(isIgnored(rules, '#notes', false)).toBe(true);
+    expect(isIgnored(rules, '!important', false)).toBe(true);
+    expect(isIgnored(rules, 'trailing.txt', false)).toBe(true);
+    expect(isIgnored(rules, 'comment', false)).toBe(false);
+  });
+
+  it('scopes a nested .gitignore to its own directory', () => {
+    const rules = [
+      ...parseGitignore('*.tmp\n'),
+      ...parseGitignore('/out\n!keep.tmp\n', 'packages/app')
+    ];
+
+    expect(isIgnored(rules, 'packages/app/out', true)).toBe(true);
+    expect(isIgnored(rules, 'out', true)).toBe(false);
+    expect(isIgnored(rules, 'packages/app/keep.tmp', false)).toBe(false);
+    expect(isIgnored(rules, 'keep.tmp', false)).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseToolCalls, parseToolCallsWithRepair, repairJson } from '../../src/utils/toolCallParser.js';
+import { hermesToolCallAdapter } from '../../src/ollama/toolCallAdapters.js';
+
+describe('parseToolCalls', () => {
+  it('finds a call inside a fenced JSON block surrounded by prose', () => {
+    const text = [
+      'Let me read that file.',
+      '```json',
+      '{"function_call": {"name": "read_file", "arguments": {"path": "src/index.ts"}}}',
+      '```',
+      'Then I will summarize it.'
+    ].join('\n');
+
+    const result = parseToolCalls(text);
+
+    expect(result.calls).toEqual([{ name: 'read_file', args: { path: 'src/index.ts' } }]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('returns every call in order and drops exact duplicates', () => {
+    const text = [
+      '{"name": "read_file", "arguments": {"path": "a.ts"}}',
+      'and',
+      '[{"name": "read_file", "arguments": {"path": "b.ts"}}, {"name": "read_file", "arguments": {"path": "a.ts"}}]'
+    ].join('\n');
+
+    const result = parseToolCalls(text);
+
+    expect(result.calls.map(call => call.args.path)).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('repairs trailing commas, single quotes and bare keys', () => {
+    const text = "{function_call: {'name': 'write_file', 'arguments': {'path': 'a.txt', 'content': 'hi',},},}";
+
+    const result = parseToolCalls(text);
+
+    expect(result.calls).toEqual([{ name: 'write_file', args: { path: 'a.txt', content: 'hi' } }]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('parses arguments sent as a JSON string', () => {
+    const text = '{"tool_calls": [{"function": {"name": "list_directory", "arguments": "{\\"path\\": \\".\\"}"}}]}';
+
+    expect(parseToolCalls(text).calls).toEqual([{ name: 'list_directory', args: { path: '.' } }]);
+  });
+
+  it('ignores JSON that is not a call to a known tool', () => {
+    const text = 'Your config could look like {"name": "my-app", "version": "1.0.0"}';
+
+    const result = parseToolCalls(text, { knownTools: ['read_file'] });
+
+    expect(result.calls).toEqual([]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('does not read an apostrophe in code as the start of a string', () => {
+    const text = [
+      "Here's the fix:",
+      '```js',
+      'function load(path) { // don\'t cache this',
+      '  return fs.readFileSync(path);',
+      '}',
+      '```',
+      'Use "read_file" if you want to check the rest of the file.'
+    ].join('\n');
+
+    const result = parseToolCalls(text, { knownTools: ['read_file'] });
+
+    expect(result).toEqual({ calls: [], errors: [] });
+  });
+
+  it('reports broken and cut-off calls as errors', () => {
+    const broken = parseToolCalls('{"function_call": {"name": "read_file", "arguments": {"path": "a.ts" "x": 1}}}');
+    const cutOff = parseToolCalls('{"function_call": {"name": "read_file", "arguments": {"path": "a.');
+
+    expect(broken.calls).toEqual([]);
+    expect(broken.errors.length).toBeGreaterThan(0);
+    expect(cutOff.errors[0]).toMatch(/^Unterminated JSON/);
+  });
+});
+
+describe('parseToolCallsWithRepair', () => {
+  const broken = '{"function_call": {"name": "read_file", "arguments": {"path": "a.ts" "x": 1}}}';
+
+  it('asks for a repair only when nothing parsed and something looked broken', async () => {
+    const askForRepair = vi.fn(async () => '');
+
+    await parseToolCallsWithRepair('{"name": "read_file", "arguments": {}}', askForRepair);
+    await parseToolCallsWithRepair('Just an answer, no tools needed.', askForRepair);
+
+    expect(askForRepair).not.toHaveBeenCalled();
+  });
+
+  it('uses the repaired reply when it parses', async () => {
+    const askForRepair = vi.fn(async (_prompt: string) => '{"function_call": {"name": "read_file", "arguments": {"path": "a.ts"}}}');
+
+    const result = await parseToolCallsWithRepair(broken, askForRepair);
+
+    expect(askForRepair).toHaveBeenCalledTimes(1);
+    expect(askForRepair.mock.calls[0][0]).toContain('Parse error:');
+    expect(result).toEqual({ calls: [{ name: 'read_file', args: { path: 'a.ts' } }], errors: [], repaired: true });
+  });
+
+  it('asks for a call in the syntax of the format it was given', async () => {
+    const askForRepair = vi.fn(async (_prompt: string) => '<tool_call>\n{"name": "read_file", "arguments": {"path": "a.ts"}}\n</tool_call>');
+
+    const result = await parseToolCallsWithRepair('<tool_call>\n{"name": "read_file", "arguments": {"path": "a.ts" "x": 1}}\n</tool_call>', askForRepair, { knownTools: ['read_file'] }, hermesToolCallAdapter);
+
+    expect(askForRepair.mock.calls[0][0]).toContain('<tool_call>\n{"name":"tool_name","arguments":{"param":"value"}}\n</tool_call>');
+    expect(askForRepair.mock.calls[0][0]).not.toContain('function_call');
+    expect(result.calls).toEqual([{ name: 'read_file', args: { path: 'a.ts' } }]);
+  });
+
+  it('keeps the original errors when the repair fails', async () => {
+    const result = await parseToolCallsWithRepair(broken, async () => {
+      throw new Error('model went away');
+    });
+
+    expect(result.calls).toEqual([]);
+    expect(result.errors).toEqual(parseToolCalls(broken).errors);
+    expect(result.repaired).toBeUndefined();
+  });
+});
+
+describe('repairJson', () => {
+  it('maps Python literals and escapes raw newlines in strings', () => {
+    expect(JSON.parse(repairJson("{'ok': True, 'missing': None, 'text': 'a\nb'}")))
+      .toEqual({ ok: true, missing: null, text: 'a\nb' });
+  });
+});